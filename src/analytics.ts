@@ -0,0 +1,310 @@
+import type { ThreadsClient } from "./client/index.js";
+import { getUserThreads } from "./client/posts.js";
+import { getMediaInsights, getUserInsights, insightTotal } from "./client/insights.js";
+import { collectPages } from "./client/pagination.js";
+import type { ThreadsInsight } from "./client/types.js";
+import { appendStateLines, readStateLines, withLock } from "./state.js";
+
+const HISTORY_FILE = "analytics.ndjson";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Metrics counted as engagement (engagement rate = sum / views) */
+export const ENGAGEMENT_METRICS = ["likes", "replies", "reposts", "quotes"];
+
+/** Hours after posting reported by `growthCurve` */
+export const GROWTH_MILESTONES_HOURS = [1, 3, 6, 12, 24, 48, 72];
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export interface PostSnapshot {
+  kind: "post";
+  profile: string;
+  post_id: string;
+  taken_at: string;
+  posted_at?: string;
+  text?: string;
+  permalink?: string;
+  metrics: Record<string, number>;
+}
+
+/** Account totals for the 24 hours before `taken_at` (followers_count is the current total) */
+export interface AccountSnapshot {
+  kind: "account";
+  profile: string;
+  taken_at: string;
+  metrics: Record<string, number>;
+}
+
+export type InsightSnapshot = PostSnapshot | AccountSnapshot;
+
+function metricTotals(data: ThreadsInsight[]): Record<string, number> {
+  const metrics: Record<string, number> = {};
+  for (const insight of data) {
+    const total = insightTotal(insight);
+    if (total !== undefined) metrics[insight.name] = total;
+  }
+  return metrics;
+}
+
+/**
+ * Fetch media insights for posts published in the last `days` days (up to `max`)
+ * and, unless `account` is false, account totals for the last 24 hours.
+ * Posts whose insights fail (e.g. deleted meanwhile) are reported via `onError` and skipped.
+ */
+export async function takeSnapshots(
+  client: ThreadsClient,
+  options: {
+    profile: string;
+    days?: number;
+    max?: number;
+    account?: boolean;
+    now?: Date;
+    onError?: (postId: string, err: Error) => void;
+  },
+): Promise<InsightSnapshot[]> {
+  const now = options.now ?? new Date();
+  const takenAt = now.toISOString();
+  const nowSec = Math.floor(now.getTime() / 1000);
+  const since = nowSec - (options.days ?? 7) * 86_400;
+
+  const recent = await collectPages(client, (c, params) => getUserThreads(c, { ...params, since, until: nowSec }), {
+    max: options.max ?? 50,
+    pageSize: 50,
+  });
+
+  const snapshots: InsightSnapshot[] = [];
+  for (const post of recent.data) {
+    try {
+      const res = await getMediaInsights(client, post.id);
+      snapshots.push({
+        kind: "post",
+        profile: options.profile,
+        post_id: post.id,
+        taken_at: takenAt,
+        posted_at: post.timestamp ? new Date(post.timestamp).toISOString() : undefined,
+        text: post.text,
+        permalink: post.permalink,
+        metrics: metricTotals(res.data ?? []),
+      });
+    } catch (err) {
+      options.onError?.(post.id, err as Error);
+    }
+  }
+
+  if (options.account ?? true) {
+    const res = await getUserInsights(client, { since: nowSec - 86_400, until: nowSec });
+    snapshots.push({ kind: "account", profile: options.profile, taken_at: takenAt, metrics: metricTotals(res.data ?? []) });
+  }
+
+  return snapshots;
+}
+
+/** Append snapshots to the history file (~/.config/thrd-cli/analytics.ndjson) */
+export async function recordSnapshots(snapshots: InsightSnapshot[]): Promise<void> {
+  await withLock(HISTORY_FILE, () => appendStateLines(HISTORY_FILE, snapshots));
+}
+
+/** Read stored snapshots for a profile, optionally only those taken on or after `since` */
+export function readSnapshots(options: { profile: string; since?: Date }): InsightSnapshot[] {
+  const since = options.since?.getTime() ?? -Infinity;
+  return readStateLines<InsightSnapshot>(HISTORY_FILE)
+    .filter((s) => s.profile === options.profile && Date.parse(s.taken_at) >= since)
+    .sort((a, b) => Date.parse(a.taken_at) - Date.parse(b.taken_at));
+}
+
+export interface PostReport {
+  post_id: string;
+  posted_at: string | null;
+  text: string | null;
+  permalink: string | null;
+  snapshots: number;
+  first_snapshot_at: string;
+  last_snapshot_at: string;
+  views: number;
+  likes: number;
+  replies: number;
+  reposts: number;
+  quotes: number;
+  engagement_rate: number;
+  /** Growth between the first and last snapshot in the range */
+  views_delta: number;
+  engagement_delta: number;
+}
+
+export interface TimeSlotReport {
+  slot: string;
+  posts: number;
+  avg_views: number;
+  avg_engagement_rate: number;
+}
+
+export interface AccountReport {
+  snapshots: number;
+  first_snapshot_at: string;
+  last_snapshot_at: string;
+  followers_start: number | null;
+  followers_end: number | null;
+  followers_delta: number | null;
+}
+
+export interface AnalyticsReport {
+  generated_at: string;
+  since: string | null;
+  posts_tracked: number;
+  /** Posts sorted by engagement rate, highest first */
+  top_posts: PostReport[];
+  best_hours: TimeSlotReport[];
+  best_days: TimeSlotReport[];
+  account: AccountReport | null;
+}
+
+function engagements(metrics: Record<string, number>): number {
+  return ENGAGEMENT_METRICS.reduce((sum, m) => sum + (metrics[m] ?? 0), 0);
+}
+
+function engagementRate(metrics: Record<string, number>): number {
+  const views = metrics.views ?? 0;
+  return views > 0 ? round(engagements(metrics) / views, 4) : 0;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const k = key(item);
+    groups.set(k, [...(groups.get(k) ?? []), item]);
+  }
+  return groups;
+}
+
+function postReport(snapshots: PostSnapshot[]): PostReport {
+  const first = snapshots[0];
+  const last = snapshots[snapshots.length - 1];
+  const m = last.metrics;
+  return {
+    post_id: last.post_id,
+    posted_at: last.posted_at ?? null,
+    text: last.text ?? null,
+    permalink: last.permalink ?? null,
+    snapshots: snapshots.length,
+    first_snapshot_at: first.taken_at,
+    last_snapshot_at: last.taken_at,
+    views: m.views ?? 0,
+    likes: m.likes ?? 0,
+    replies: m.replies ?? 0,
+    reposts: m.reposts ?? 0,
+    quotes: m.quotes ?? 0,
+    engagement_rate: engagementRate(m),
+    views_delta: (m.views ?? 0) - (first.metrics.views ?? 0),
+    engagement_delta: engagements(m) - engagements(first.metrics),
+  };
+}
+
+/** Average views and engagement rate of posts grouped by a posting-time slot, best (most views) first */
+function timeSlots(posts: PostReport[], slotOf: (date: Date) => string): TimeSlotReport[] {
+  const dated = posts.filter((p) => p.posted_at);
+  return [...groupBy(dated, (p) => slotOf(new Date(p.posted_at!))).entries()]
+    .map(([slot, group]) => ({
+      slot,
+      posts: group.length,
+      avg_views: round(group.reduce((s, p) => s + p.views, 0) / group.length, 1),
+      avg_engagement_rate: round(group.reduce((s, p) => s + p.engagement_rate, 0) / group.length, 4),
+    }))
+    .sort((a, b) => b.avg_views - a.avg_views || b.avg_engagement_rate - a.avg_engagement_rate);
+}
+
+/**
+ * Summarize snapshots: latest metrics and growth per post, top posts by
+ * engagement rate, best posting hour/weekday (local time) and follower change.
+ */
+export function buildReport(
+  snapshots: InsightSnapshot[],
+  options?: { since?: Date; top?: number; minViews?: number; now?: Date },
+): AnalyticsReport {
+  const postSnapshots = snapshots.filter((s): s is PostSnapshot => s.kind === "post");
+  const accountSnapshots = snapshots.filter((s): s is AccountSnapshot => s.kind === "account");
+
+  const posts = [...groupBy(postSnapshots, (s) => s.post_id).values()].map(postReport);
+  const ranked = posts
+    .filter((p) => p.views >= (options?.minViews ?? 1))
+    .sort((a, b) => b.engagement_rate - a.engagement_rate || b.views - a.views);
+
+  let account: AccountReport | null = null;
+  if (accountSnapshots.length) {
+    const first = accountSnapshots[0];
+    const last = accountSnapshots[accountSnapshots.length - 1];
+    const start = first.metrics.followers_count ?? null;
+    const end = last.metrics.followers_count ?? null;
+    account = {
+      snapshots: accountSnapshots.length,
+      first_snapshot_at: first.taken_at,
+      last_snapshot_at: last.taken_at,
+      followers_start: start,
+      followers_end: end,
+      followers_delta: start !== null && end !== null ? end - start : null,
+    };
+  }
+
+  return {
+    generated_at: (options?.now ?? new Date()).toISOString(),
+    since: options?.since?.toISOString() ?? null,
+    posts_tracked: posts.length,
+    top_posts: options?.top ? ranked.slice(0, options.top) : ranked,
+    best_hours: timeSlots(posts, (d) => `${String(d.getHours()).padStart(2, "0")}:00`),
+    best_days: timeSlots(posts, (d) => WEEKDAYS[d.getDay()]),
+    account,
+  };
+}
+
+export interface GrowthPoint {
+  taken_at: string;
+  hours_since_post: number;
+  views: number;
+  engagements: number;
+}
+
+export interface GrowthCurve {
+  post_id: string;
+  posted_at: string | null;
+  text: string | null;
+  points: GrowthPoint[];
+  /**
+   * Views at each milestone: the last snapshot taken no later than that many hours after
+   * posting, or null if tracking had not started yet or has not reached the milestone
+   */
+  milestones: Array<{ hours: number; views: number | null }>;
+}
+
+/** Views/engagement of one post over time, measured from its publish time */
+export function growthCurve(snapshots: InsightSnapshot[], postId: string): GrowthCurve | undefined {
+  const history = snapshots.filter((s): s is PostSnapshot => s.kind === "post" && s.post_id === postId);
+  if (!history.length) return undefined;
+
+  const last = history[history.length - 1];
+  const postedAt = last.posted_at ? Date.parse(last.posted_at) : Date.parse(history[0].taken_at);
+  const points = history.map((s) => ({
+    taken_at: s.taken_at,
+    hours_since_post: round((Date.parse(s.taken_at) - postedAt) / HOUR_MS, 1),
+    views: s.metrics.views ?? 0,
+    engagements: engagements(s.metrics),
+  }));
+
+  const milestones = GROWTH_MILESTONES_HOURS.map((hours) => {
+    const reached = points.filter((p) => p.hours_since_post <= hours);
+    const observed = reached.length > 0 && points[points.length - 1].hours_since_post >= hours;
+    return { hours, views: observed ? reached[reached.length - 1].views : null };
+  });
+
+  return { post_id: postId, posted_at: last.posted_at ?? null, text: last.text ?? null, points, milestones };
+}
+
+/** Start of a report range `days` days before `now` */
+export function reportSince(days: number, now = new Date()): Date {
+  return new Date(now.getTime() - days * DAY_MS);
+}
@@ -0,0 +1,322 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { extname, join } from "path";
+import type { ThreadsClient } from "./client/index.js";
+import { collectPages, paginate } from "./client/pagination.js";
+import { ARCHIVE_FIELDS, getThread, getUserThreads } from "./client/posts.js";
+import { getConversation, getReplies } from "./client/replies.js";
+import { getMediaInsights } from "./client/insights.js";
+import type { ThreadsInsight, ThreadsPost } from "./client/types.js";
+
+const MANIFEST_FILE = "manifest.json";
+const POSTS_DIR = "posts";
+const MEDIA_DIR = "media";
+
+const CAROUSEL_ITEM_FIELDS = "id,media_type,media_url,timestamp,permalink";
+
+/** Browsable formats written next to the JSON files */
+export type ArchiveFormat = "markdown" | "html";
+
+export const ARCHIVE_FORMATS: ArchiveFormat[] = ["markdown", "html"];
+
+export interface ArchivedMedia {
+  /** Post or carousel item the media belongs to */
+  id: string;
+  url: string;
+  /** Path relative to the export directory, once downloaded */
+  file?: string;
+  error?: string;
+}
+
+/** Contents of `posts/<id>.json` */
+export interface ArchivedPost {
+  post: ThreadsPost;
+  /** Carousel items with their media URLs */
+  children?: ThreadsPost[];
+  replies?: ThreadsPost[];
+  conversation?: ThreadsPost[];
+  insights?: ThreadsInsight[];
+  media: ArchivedMedia[];
+  /** Optional parts that could not be fetched, by name */
+  errors?: Record<string, string>;
+  exported_at: string;
+}
+
+export interface ManifestEntry {
+  id: string;
+  timestamp?: string;
+  media_type?: string;
+  permalink?: string;
+  /** First line of the text, for indexes */
+  title: string;
+  file: string;
+  media: string[];
+}
+
+export interface ArchiveManifest {
+  version: 1;
+  user_id: string;
+  username?: string;
+  created_at: string;
+  updated_at: string;
+  /** Newest post timestamp seen; the next run only fetches posts from then on */
+  newest_timestamp?: string;
+  /** Posts, newest first */
+  posts: ManifestEntry[];
+}
+
+export interface ExportOptions {
+  replies?: boolean;
+  conversations?: boolean;
+  insights?: boolean;
+  /** Download media files. Default: true */
+  media?: boolean;
+  /** Scan every post instead of only those since the last export, adding any that are missing */
+  full?: boolean;
+  format?: ArchiveFormat;
+  onPost?: (entry: ManifestEntry, archived: ArchivedPost) => void;
+}
+
+function readJson<T>(path: string): T {
+  return JSON.parse(readFileSync(path, "utf-8")) as T;
+}
+
+function writeJson(path: string, value: unknown): void {
+  writeFileSync(path, JSON.stringify(value, null, 2) + "\n");
+}
+
+export function readManifest(dir: string): ArchiveManifest | undefined {
+  const path = join(dir, MANIFEST_FILE);
+  return existsSync(path) ? readJson<ArchiveManifest>(path) : undefined;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": ".jpg",
+  "image/png": ".png",
+  "image/webp": ".webp",
+  "image/gif": ".gif",
+  "video/mp4": ".mp4",
+  "video/quicktime": ".mov",
+};
+
+/** Download one media URL into `media/`; failures are recorded rather than thrown */
+async function downloadMedia(dir: string, id: string, url: string): Promise<ArchivedMedia> {
+  try {
+    const res = await fetch(url);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const type = res.headers.get("content-type")?.split(";")[0].trim() ?? "";
+    const fromUrl = extname(new URL(url).pathname).toLowerCase();
+    const ext = EXTENSIONS[type] ?? (/^\.[a-z0-9]{2,5}$/.test(fromUrl) ? fromUrl : ".bin");
+    const file = `${MEDIA_DIR}/${id}${ext}`;
+    writeFileSync(join(dir, file), Buffer.from(await res.arrayBuffer()));
+    return { id, url, file };
+  } catch (err) {
+    return { id, url, error: `Download failed: ${(err as Error).message}` };
+  }
+}
+
+/** Fetch everything archived for one post; optional parts that fail are noted in `errors` */
+async function archivePost(client: ThreadsClient, dir: string, post: ThreadsPost, options: ExportOptions): Promise<ArchivedPost> {
+  const archived: ArchivedPost = { post, media: [], exported_at: new Date().toISOString() };
+  const errors: Record<string, string> = {};
+  const attempt = async (name: string, fn: () => Promise<void>) => {
+    try {
+      await fn();
+    } catch (err) {
+      errors[name] = (err as Error).message;
+    }
+  };
+
+  if (post.children?.data.length) {
+    await attempt("children", async () => {
+      const children: ThreadsPost[] = [];
+      for (const child of post.children!.data) children.push(await getThread(client, child.id, CAROUSEL_ITEM_FIELDS));
+      archived.children = children;
+    });
+  }
+  if (options.replies) {
+    await attempt("replies", async () => {
+      archived.replies = (await collectPages(client, (c, p) => getReplies(c, post.id, p))).data;
+    });
+  }
+  if (options.conversations) {
+    await attempt("conversation", async () => {
+      archived.conversation = (await collectPages(client, (c, p) => getConversation(c, post.id, p))).data;
+    });
+  }
+  if (options.insights && post.media_type !== "REPOST_FACADE") {
+    await attempt("insights", async () => {
+      archived.insights = (await getMediaInsights(client, post.id)).data;
+    });
+  }
+
+  if (options.media !== false) {
+    const sources = [post, ...(archived.children ?? [])].filter((p) => p.media_url);
+    for (const source of sources) archived.media.push(await downloadMedia(dir, source.id, source.media_url!));
+  }
+  if (Object.keys(errors).length) archived.errors = errors;
+  return archived;
+}
+
+function firstLine(post: ThreadsPost): string {
+  const line = post.text?.split("\n").find((l) => l.trim())?.trim();
+  if (line) return line.length > 80 ? `${line.slice(0, 79)}…` : line;
+  if (post.media_type === "REPOST_FACADE") return `Repost of ${post.reposted_post?.id ?? "a post"}`;
+  return `(${(post.media_type ?? "post").toLowerCase()})`;
+}
+
+/**
+ * Archive the client's posts into `dir`: `manifest.json`, `posts/<id>.json` per post
+ * and downloaded media under `media/`. An existing export is extended with posts
+ * newer than its newest one (or every missing post with `full`).
+ */
+export async function exportAccount(
+  client: ThreadsClient,
+  dir: string,
+  options: ExportOptions = {},
+): Promise<{ manifest: ArchiveManifest; added: ManifestEntry[] }> {
+  if (!client.userId) throw new Error("user_id is required.");
+  mkdirSync(join(dir, POSTS_DIR), { recursive: true });
+  mkdirSync(join(dir, MEDIA_DIR), { recursive: true });
+
+  const now = new Date().toISOString();
+  const manifest: ArchiveManifest = readManifest(dir) ?? { version: 1, user_id: client.userId, created_at: now, updated_at: now, posts: [] };
+  if (manifest.user_id !== client.userId) {
+    throw new Error(`${dir} holds an export of another account (user ${manifest.user_id}).`);
+  }
+
+  const known = new Set(manifest.posts.map((entry) => entry.id));
+  const since = !options.full && manifest.newest_timestamp
+    ? Math.floor(Date.parse(manifest.newest_timestamp) / 1000)
+    : undefined;
+  let newest = manifest.newest_timestamp;
+  const added: ManifestEntry[] = [];
+  const saveManifest = () => {
+    manifest.posts.sort((a, b) => (b.timestamp ?? "").localeCompare(a.timestamp ?? ""));
+    manifest.updated_at = new Date().toISOString();
+    writeJson(join(dir, MANIFEST_FILE), manifest);
+  };
+
+  for await (const post of paginate(client, (c, p) => getUserThreads(c, { ...p, since, fields: ARCHIVE_FIELDS }), { pageSize: 100 })) {
+    if (post.timestamp && (!newest || post.timestamp > newest)) newest = post.timestamp;
+    if (known.has(post.id)) continue;
+    manifest.username ??= post.username;
+
+    const archived = await archivePost(client, dir, post, options);
+    const entry: ManifestEntry = {
+      id: post.id,
+      timestamp: post.timestamp,
+      media_type: post.media_type,
+      permalink: post.permalink,
+      title: firstLine(post),
+      file: `${POSTS_DIR}/${post.id}.json`,
+      media: archived.media.flatMap((m) => (m.file ? [m.file] : [])),
+    };
+    writeJson(join(dir, entry.file), archived);
+    // The manifest is saved after every post, so an interrupted run keeps what it fetched
+    manifest.posts.push(entry);
+    known.add(post.id);
+    added.push(entry);
+    saveManifest();
+    options.onPost?.(entry, archived);
+  }
+
+  // Only move the incremental cursor once every page was read
+  manifest.newest_timestamp = newest;
+  saveManifest();
+  if (options.format) renderArchive(dir, manifest, options.format);
+  return { manifest, added };
+}
+
+// ─── Browsable archive ───
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+}
+
+function isVideo(file: string): boolean {
+  return /\.(mp4|mov)$/i.test(file);
+}
+
+function insightsLines(insights: ThreadsInsight[] | undefined): Array<[string, string]> {
+  return (insights ?? []).map((i) => [i.title ?? i.name, String(i.total_value?.value ?? i.values?.[0]?.value ?? 0)]);
+}
+
+function postMarkdown(entry: ManifestEntry, archived: ArchivedPost): string {
+  const { post } = archived;
+  const lines = [`# ${entry.title}`, "", `${post.timestamp ?? ""} · ${post.media_type ?? ""}${post.permalink ? ` · [permalink](${post.permalink})` : ""}`, ""];
+  if (post.text) lines.push(post.text, "");
+  if (post.quoted_post) lines.push(`> Quotes ${post.quoted_post.id}`, "");
+  if (post.reposted_post) lines.push(`> Repost of ${post.reposted_post.id}`, "");
+  for (const media of archived.media) {
+    if (!media.file) lines.push(`[${media.id}](${media.url}) (not downloaded)`, "");
+    else lines.push(isVideo(media.file) ? `[▶ video](../${media.file})` : `![](../${media.file})`, "");
+  }
+  const metrics = insightsLines(archived.insights);
+  if (metrics.length) lines.push("## Insights", "", ...metrics.map(([name, value]) => `- ${name}: ${value}`), "");
+  for (const [title, items] of [["Replies", archived.replies], ["Conversation", archived.conversation]] as const) {
+    if (!items?.length) continue;
+    lines.push(`## ${title}`, "");
+    for (const reply of items) lines.push(`**@${reply.username ?? "?"}** · ${reply.timestamp ?? ""}`, "", ...(reply.text ?? "").split("\n").map((l) => `> ${l}`), "");
+  }
+  return lines.join("\n");
+}
+
+const HTML_STYLE = "body{font-family:system-ui,sans-serif;max-width:720px;margin:2rem auto;padding:0 1rem;line-height:1.5}"
+  + "img,video{max-width:100%;border-radius:8px;margin:.5rem 0}.meta{color:#666;font-size:.9em}"
+  + ".text{white-space:pre-wrap}blockquote{border-left:3px solid #ddd;margin:.5rem 0;padding-left:.75rem}"
+  + "li{margin:.4rem 0}";
+
+function htmlPage(title: string, body: string): string {
+  return `<!doctype html>\n<html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title><style>${HTML_STYLE}</style></head>\n<body>\n${body}\n</body></html>\n`;
+}
+
+function postHtml(entry: ManifestEntry, archived: ArchivedPost): string {
+  const { post } = archived;
+  const parts = [
+    `<p><a href="../index.html">← All posts</a></p>`,
+    `<p class="meta">${escapeHtml(`${post.timestamp ?? ""} · ${post.media_type ?? ""}`)}${post.permalink ? ` · <a href="${escapeHtml(post.permalink)}">permalink</a>` : ""}</p>`,
+  ];
+  if (post.text) parts.push(`<div class="text">${escapeHtml(post.text)}</div>`);
+  if (post.quoted_post) parts.push(`<blockquote>Quotes ${escapeHtml(post.quoted_post.id)}</blockquote>`);
+  if (post.reposted_post) parts.push(`<blockquote>Repost of ${escapeHtml(post.reposted_post.id)}</blockquote>`);
+  for (const media of archived.media) {
+    const src = media.file ? `../${media.file}` : media.url;
+    parts.push(media.file && isVideo(media.file)
+      ? `<video controls src="${escapeHtml(src)}"></video>`
+      : `<img src="${escapeHtml(src)}" alt="">`);
+  }
+  const metrics = insightsLines(archived.insights);
+  if (metrics.length) {
+    parts.push(`<h2>Insights</h2><ul>${metrics.map(([name, value]) => `<li>${escapeHtml(name)}: ${escapeHtml(value)}</li>`).join("")}</ul>`);
+  }
+  for (const [title, items] of [["Replies", archived.replies], ["Conversation", archived.conversation]] as const) {
+    if (!items?.length) continue;
+    const list = items.map((reply) =>
+      `<blockquote><strong>@${escapeHtml(reply.username ?? "?")}</strong> <span class="meta">${escapeHtml(reply.timestamp ?? "")}</span>`
+      + `<div class="text">${escapeHtml(reply.text ?? "")}</div></blockquote>`);
+    parts.push(`<h2>${title}</h2>${list.join("\n")}`);
+  }
+  return htmlPage(entry.title, parts.join("\n"));
+}
+
+/** Write index and per-post pages for every post in the manifest */
+export function renderArchive(dir: string, manifest: ArchiveManifest, format: ArchiveFormat): void {
+  const ext = format === "html" ? "html" : "md";
+  const heading = `Threads archive${manifest.username ? ` of @${manifest.username}` : ""}`;
+  const index: string[] = [];
+
+  for (const entry of manifest.posts) {
+    const archived = readJson<ArchivedPost>(join(dir, entry.file));
+    const page = `${POSTS_DIR}/${entry.id}.${ext}`;
+    writeFileSync(join(dir, page), format === "html" ? postHtml(entry, archived) : postMarkdown(entry, archived));
+    const date = entry.timestamp?.slice(0, 10) ?? "";
+    index.push(format === "html"
+      ? `<li><span class="meta">${escapeHtml(date)}</span> <a href="${page}">${escapeHtml(entry.title)}</a></li>`
+      : `- ${date} [${entry.title.replace(/[[\]]/g, "\\$&")}](${page})`);
+  }
+
+  const summary = `${manifest.posts.length} posts, updated ${manifest.updated_at}`;
+  writeFileSync(join(dir, `index.${ext}`), format === "html"
+    ? htmlPage(heading, `<h1>${escapeHtml(heading)}</h1>\n<p class="meta">${escapeHtml(summary)}</p>\n<ul>\n${index.join("\n")}\n</ul>`)
+    : `# ${heading}\n\n${summary}\n\n${index.join("\n")}\n`);
+}
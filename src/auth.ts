@@ -1,65 +1,64 @@
 import { createServer as createHttpsServer } from "https";
 import type { IncomingMessage, ServerResponse } from "http";
 import { randomBytes } from "crypto";
-import { execSync } from "child_process";
-import { mkdtempSync, readFileSync, rmSync } from "fs";
-import { join } from "path";
-import { tmpdir } from "os";
 import open from "open";
-import { saveConfig } from "./config.js";
+import { generateSelfSignedCert } from "./cert.js";
+import { getTokenRefreshDays, getTokenSource, loadConfig, saveConfig } from "./config.js";
+import { withLock } from "./state.js";
+import { createApiError } from "./client/errors.js";
+import type { ThreadsClient } from "./client/index.js";
+import type { FetchLike } from "./client/transport.js";
 
 const AUTHORIZE_URL = "https://threads.net/oauth/authorize";
-const TOKEN_URL = "https://graph.threads.net/oauth/access_token";
-const EXCHANGE_URL = "https://graph.threads.net/access_token";
+const GRAPH_ORIGIN = "https://graph.threads.net";
 
-const SCOPES = [
+/** Graph API origin; THRD_API_URL points token requests at a proxy or fake server */
+function graphOrigin(): string {
+  return (process.env.THRD_API_URL ?? GRAPH_ORIGIN).replace(/\/+$/, "");
+}
+
+let tokenFetch: FetchLike | undefined;
+
+/** Fetch used for the OAuth token endpoints (e.g. a record/replay transport); default: global fetch */
+export function setAuthTransport(fetchImpl: FetchLike | undefined): void {
+  tokenFetch = fetchImpl;
+}
+
+function authFetch(url: string, init?: RequestInit): Promise<Response> {
+  return tokenFetch ? tokenFetch(url, init) : fetch(url, init);
+}
+
+/** Scopes requested by default; `threads_basic` is always included */
+export const SCOPES = [
   "threads_basic",
   "threads_content_publish",
   "threads_read_replies",
   "threads_manage_replies",
   "threads_manage_insights",
   "threads_delete",
-].join(",");
+];
 
 /**
- * Generate a self-signed certificate for the local HTTPS callback server.
- * Requires `openssl` CLI (available on macOS, Linux, and most Windows dev environments).
+ * Scopes only requested with `--scopes` (search, mentions, public profiles). Meta
+ * rejects the whole authorize request if the app has not enabled one of them.
  */
-function generateSelfSignedCert(): { key: string; cert: string; cleanup: () => void } {
-  const tmp = mkdtempSync(join(tmpdir(), "thrd-cert-"));
-  const keyPath = join(tmp, "key.pem");
-  const certPath = join(tmp, "cert.pem");
+export const OPTIONAL_SCOPES = [
+  "threads_keyword_search",
+  "threads_manage_mentions",
+  "threads_profile_discovery",
+];
 
-  try {
-    execSync(
-      [
-        "openssl", "req", "-x509",
-        "-newkey", "rsa:2048",
-        "-keyout", keyPath,
-        "-out", certPath,
-        "-days", "1",
-        "-nodes",
-        "-subj", "/CN=localhost",
-      ].join(" "),
-      { stdio: "ignore" },
-    );
-  } catch {
-    rmSync(tmp, { recursive: true, force: true });
-    throw new Error(
-      "Failed to generate a self-signed certificate. Is OpenSSL installed?\n" +
-      "  macOS:   brew install openssl\n" +
-      "  Ubuntu:  sudo apt install openssl\n" +
-      "  Windows: https://slproweb.com/products/Win32OpenSSL.html",
-    );
-  }
-
-  const key = readFileSync(keyPath, "utf-8");
-  const cert = readFileSync(certPath, "utf-8");
-  const cleanup = () => {
-    try { rmSync(tmp, { recursive: true, force: true }); } catch { /* ignore */ }
-  };
-
-  return { key, cert, cleanup };
+/**
+ * Validate requested scopes, adding the required `threads_basic`. `default`
+ * stands for SCOPES, e.g. `default,threads_keyword_search`.
+ */
+export function resolveScopes(requested?: string[]): string[] {
+  if (!requested?.length) return SCOPES;
+  const known = [...SCOPES, ...OPTIONAL_SCOPES];
+  const wanted = requested.flatMap((scope) => (scope === "default" ? SCOPES : [scope]));
+  const unknown = wanted.filter((scope) => !known.includes(scope));
+  if (unknown.length) throw new Error(`Unknown scope(s): ${unknown.join(", ")}. Available: default, ${known.join(", ")}`);
+  return known.filter((scope) => scope === "threads_basic" || wanted.includes(scope));
 }
 
 interface TokenResponse {
@@ -74,18 +73,38 @@ interface LongLivedTokenResponse {
   expires_in?: number;
 }
 
+export interface AuthenticateOptions {
+  /** Callback server port (default: 3000); ignored when `redirectUri` is given */
+  port?: number;
+  /** Profile to save into (default: the active profile) */
+  profile?: string;
+  /** Scopes to request (default: SCOPES); see resolveScopes */
+  scopes?: string[];
+  /** Redirect URI registered for the app (default: https://localhost:<port>/callback) */
+  redirectUri?: string;
+  /**
+   * Headless mode: no browser or callback server. Called with the authorize URL;
+   * resolves to the redirected URL (or its query string) the user pastes back.
+   */
+  manual?: (authorizeUrl: string) => Promise<string>;
+}
+
 /**
  * Run the full OAuth 2.0 authorization code flow.
+ * Credentials are saved into `options.profile` (defaults to the active profile).
  */
 export async function authenticate(
   appId: string,
   appSecret: string,
-  port = 3000,
+  options: AuthenticateOptions = {},
 ): Promise<void> {
-  const redirectUri = `https://localhost:${port}/callback`;
+  const redirectUri = options.redirectUri ?? `https://localhost:${options.port ?? 3000}/callback`;
   const state = randomBytes(16).toString("hex");
+  const authUrl = buildAuthorizeUrl(appId, redirectUri, state, resolveScopes(options.scopes));
 
-  const code = await getAuthorizationCode(appId, redirectUri, state, port);
+  const code = options.manual
+    ? parseManualResponse(await options.manual(authUrl), state)
+    : await getAuthorizationCode(authUrl, redirectUri, state);
   const shortLived = await exchangeCodeForToken(appId, appSecret, code, redirectUri);
   const longLived = await exchangeForLongLivedToken(appSecret, shortLived.access_token);
 
@@ -99,42 +118,69 @@ export async function authenticate(
     access_token: longLived.access_token,
     user_id: shortLived.user_id ? String(shortLived.user_id) : undefined,
     expires_at: expiresAt,
-  });
+  }, options.profile);
 }
 
-function getAuthorizationCode(
-  appId: string,
-  redirectUri: string,
-  state: string,
-  port: number,
-): Promise<string> {
+function buildAuthorizeUrl(appId: string, redirectUri: string, state: string, scopes: string[]): string {
+  const authUrl = new URL(AUTHORIZE_URL);
+  authUrl.searchParams.set("client_id", appId);
+  authUrl.searchParams.set("redirect_uri", redirectUri);
+  authUrl.searchParams.set("scope", scopes.join(","));
+  authUrl.searchParams.set("response_type", "code");
+  authUrl.searchParams.set("state", state);
+  return authUrl.toString();
+}
+
+/** Code from a redirect's query string; throws on `error`, a missing code, or a state mismatch */
+function parseCallbackParams(params: URLSearchParams, state: string): string {
+  const code = params.get("code");
+  const returnedState = params.get("state");
+  const error = params.get("error");
+
+  if (error) throw new Error(`OAuth error: ${error}`);
+  if (!code || returnedState !== state) throw new Error("Invalid OAuth callback.");
+  return code;
+}
+
+/**
+ * Code from what the user pasted in manual mode: the redirected URL or its query
+ * string, checked like the callback server checks it (a bare code carries no
+ * `state` to compare). Threads appends `#_` to the redirect, which is stripped.
+ */
+function parseManualResponse(input: string, state: string): string {
+  const value = input.trim();
+  if (/^https?:\/\//i.test(value)) return parseCallbackParams(new URL(value).searchParams, state);
+  if (value.includes("=")) return parseCallbackParams(new URLSearchParams(value.replace(/^\?/, "").replace(/#.*$/, "")), state);
+  throw new Error("Paste the full redirected URL (or its query string with code and state), not just the code.");
+}
+
+function getAuthorizationCode(authUrl: string, redirectUri: string, state: string): Promise<string> {
+  const redirect = new URL(redirectUri);
+  if (redirect.protocol !== "https:" || !["localhost", "127.0.0.1"].includes(redirect.hostname)) {
+    return Promise.reject(new Error(
+      `Redirect URI ${redirectUri} is not an https://localhost address the callback server can receive. Use --manual.`,
+    ));
+  }
+  const port = Number(redirect.port || 443);
+
   return new Promise((resolve, reject) => {
-    const tlsOptions = generateSelfSignedCert();
-    const server = createHttpsServer(tlsOptions, (req: IncomingMessage, res: ServerResponse) => {
-      const url = new URL(req.url ?? "/", `https://localhost:${port}`);
-      if (url.pathname !== "/callback") {
+    const server = createHttpsServer(generateSelfSignedCert(), (req: IncomingMessage, res: ServerResponse) => {
+      const url = new URL(req.url ?? "/", redirect.origin);
+      if (url.pathname !== redirect.pathname) {
         res.writeHead(404);
         res.end("Not found");
         return;
       }
 
-      const code = url.searchParams.get("code");
-      const returnedState = url.searchParams.get("state");
-      const error = url.searchParams.get("error");
-
-      if (error) {
+      let code: string;
+      try {
+        code = parseCallbackParams(url.searchParams, state);
+      } catch (err) {
+        const error = url.searchParams.get("error");
         res.writeHead(400);
-        res.end(`Authorization failed: ${error}`);
+        res.end(error ? `Authorization failed: ${error}` : "Invalid callback: missing code or state mismatch.");
         server.close();
-        reject(new Error(`OAuth error: ${error}`));
-        return;
-      }
-
-      if (!code || returnedState !== state) {
-        res.writeHead(400);
-        res.end("Invalid callback: missing code or state mismatch.");
-        server.close();
-        reject(new Error("Invalid OAuth callback."));
+        reject(err);
         return;
       }
 
@@ -145,23 +191,12 @@ function getAuthorizationCode(
     });
 
     server.listen(port, () => {
-      const authUrl = new URL(AUTHORIZE_URL);
-      authUrl.searchParams.set("client_id", appId);
-      authUrl.searchParams.set("redirect_uri", redirectUri);
-      authUrl.searchParams.set("scope", SCOPES);
-      authUrl.searchParams.set("response_type", "code");
-      authUrl.searchParams.set("state", state);
-
-      open(authUrl.toString()).catch(() => {
-        console.log(`Open this URL in your browser:\n${authUrl.toString()}`);
+      open(authUrl).catch(() => {
+        console.log(`Open this URL in your browser:\n${authUrl}`);
       });
     });
 
-    server.on("error", (err) => {
-      tlsOptions.cleanup();
-      reject(err);
-    });
-    server.on("close", () => tlsOptions.cleanup());
+    server.on("error", reject);
   });
 }
 
@@ -179,15 +214,14 @@ async function exchangeCodeForToken(
     code,
   });
 
-  const res = await fetch(TOKEN_URL, {
+  const res = await authFetch(`${graphOrigin()}/oauth/access_token`, {
     method: "POST",
     headers: { "Content-Type": "application/x-www-form-urlencoded" },
     body: params.toString(),
   });
 
   if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`Token exchange failed (${res.status}): ${text}`);
+    throw createApiError(res.status, await res.text(), { context: `Token exchange failed (${res.status})` });
   }
 
   return res.json() as Promise<TokenResponse>;
@@ -203,11 +237,10 @@ async function exchangeForLongLivedToken(
     access_token: shortLivedToken,
   });
 
-  const res = await fetch(`${EXCHANGE_URL}?${params.toString()}`);
+  const res = await authFetch(`${graphOrigin()}/access_token?${params.toString()}`);
 
   if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`Long-lived token exchange failed (${res.status}): ${text}`);
+    throw createApiError(res.status, await res.text(), { context: `Long-lived token exchange failed (${res.status})` });
   }
 
   return res.json() as Promise<LongLivedTokenResponse>;
@@ -220,12 +253,96 @@ export async function refreshToken(accessToken: string): Promise<LongLivedTokenR
     access_token: accessToken,
   });
 
-  const res = await fetch(`https://graph.threads.net/refresh_access_token?${params.toString()}`);
+  const res = await authFetch(`${graphOrigin()}/refresh_access_token?${params.toString()}`);
 
   if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`Token refresh failed (${res.status}): ${text}`);
+    throw createApiError(res.status, await res.text(), { context: `Token refresh failed (${res.status})` });
   }
 
   return res.json() as Promise<LongLivedTokenResponse>;
 }
+
+export interface StoredTokenRefresh {
+  refreshed: boolean;
+  expires_at?: string;
+}
+
+/**
+ * Refresh the token stored for `profile` and save it with its new `expires_at`.
+ * Runs under a lock and re-reads the profile inside it, so with `windowDays`
+ * a token another process already refreshed is left alone.
+ */
+export async function refreshStoredToken(
+  profile: string,
+  options?: { windowDays?: number; now?: Date },
+): Promise<StoredTokenRefresh> {
+  if (getTokenSource(profile) === "command") {
+    throw new Error("The access token comes from credential_command. Refresh it in the store that command reads from.");
+  }
+  return withLock(`token-refresh.${profile}`, async () => {
+    const config = loadConfig(profile, { warnExpiry: false });
+    const now = options?.now ?? new Date();
+    if (options?.windowDays !== undefined && !expiresWithin(config.expires_at, options.windowDays, now)) {
+      return { refreshed: false, expires_at: config.expires_at };
+    }
+
+    const result = await refreshToken(config.access_token);
+    const expiresAt = result.expires_in
+      ? new Date(now.getTime() + result.expires_in * 1000).toISOString()
+      : undefined;
+    saveConfig({ access_token: result.access_token, expires_at: expiresAt }, profile);
+    return { refreshed: true, expires_at: expiresAt };
+  });
+}
+
+/** True if `expiresAt` is still in the future but no more than `days` away */
+function expiresWithin(expiresAt: string | undefined, days: number, now: Date): boolean {
+  if (!expiresAt) return false;
+  const msLeft = Date.parse(expiresAt) - now.getTime();
+  return msLeft > 0 && msLeft <= days * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Refresh the stored token if it expires within the configured window
+ * (`token_refresh_days`, default 7). Tokens from THREADS_ACCESS_TOKEN or a
+ * credential command are not stored here and are left alone. Refresh failures go
+ * to `onError`; the old token is then used as-is.
+ */
+export async function ensureFreshToken(
+  profile: string,
+  options?: { onRefresh?: (expiresAt: string | undefined) => void; onError?: (err: Error) => void },
+): Promise<void> {
+  if (getTokenSource(profile) !== "config") return;
+  const windowDays = getTokenRefreshDays();
+  if (windowDays <= 0) return;
+
+  const { expires_at } = loadConfig(profile, { warnExpiry: false });
+  if (!expiresWithin(expires_at, windowDays, new Date())) return;
+
+  try {
+    const result = await refreshStoredToken(profile, { windowDays });
+    if (result.refreshed) options?.onRefresh?.(result.expires_at);
+  } catch (err) {
+    options?.onError?.(err as Error);
+  }
+}
+
+/** `debug_token` details for an access token */
+export interface TokenInfo {
+  type?: string;
+  application?: string;
+  is_valid: boolean;
+  /** Unix seconds */
+  issued_at?: number;
+  /** Unix seconds (0 = never) */
+  expires_at?: number;
+  data_access_expires_at?: number;
+  scopes?: string[];
+  user_id?: string;
+}
+
+/** Inspect the client's token (validity, scopes, issue/expiry times) */
+export async function debugToken(client: ThreadsClient, inputToken: string): Promise<TokenInfo> {
+  const res = await client.request<{ data: TokenInfo }>("GET", "debug_token", { input_token: inputToken });
+  return res.data;
+}
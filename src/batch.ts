@@ -0,0 +1,344 @@
+import { createHash } from "crypto";
+import { appendFileSync, existsSync, readFileSync } from "fs";
+import { extname } from "path";
+import { MAX_TEXT_LENGTH } from "./client/posts.js";
+import type { ReplyControl } from "./client/types.js";
+
+export const BATCH_OPS = ["post", "carousel", "reply", "delete", "hide", "unhide"] as const;
+
+export type BatchOp = (typeof BATCH_OPS)[number];
+
+export type BatchFormat = "ndjson" | "csv";
+
+/** One operation of a batch file */
+export interface BatchOperation {
+  /** Line the operation starts on (1-based, counting the CSV header) */
+  line: number;
+  op: BatchOp;
+  text?: string;
+  image?: string;
+  video?: string;
+  /** Carousel media; `|`-separated in CSV */
+  media?: string[];
+  /** Post to reply to (`reply`, or `post` as a reply) */
+  reply_to?: string;
+  reply_control?: ReplyControl;
+  /** Target post or reply of `delete`, `hide` and `unhide` */
+  id?: string;
+  idempotency_key?: string;
+  /** SHA-256 of the operation, so `--resume` only skips lines that did not change */
+  hash: string;
+}
+
+export type BatchStatus = "ok" | "failed" | "skipped";
+
+/** One line of the batch report (NDJSON) */
+export interface BatchResult {
+  line: number;
+  op: BatchOp;
+  hash: string;
+  status: BatchStatus;
+  /** Published post ID, or the target ID of delete/hide/unhide */
+  id?: string;
+  error?: string;
+  at: string;
+}
+
+/** A validation problem and its line (0 when it is not tied to one) */
+type BatchProblem = [line: number, problem: string];
+
+const FIELDS = ["op", "text", "image", "video", "media", "reply_to", "reply_control", "id", "idempotency_key"] as const;
+
+const REPLY_CONTROLS: ReplyControl[] = ["everyone", "accounts_you_follow", "mentioned_only"];
+
+/** Fields each operation accepts besides `op` */
+const ALLOWED_FIELDS: Record<BatchOp, string[]> = {
+  post: ["text", "image", "video", "reply_to", "reply_control", "idempotency_key"],
+  carousel: ["text", "media", "reply_control", "idempotency_key"],
+  reply: ["text", "image", "video", "reply_to", "reply_control", "idempotency_key"],
+  delete: ["id"],
+  hide: ["id"],
+  unhide: ["id"],
+};
+
+/** Format from the file extension: `.csv` is CSV, anything else NDJSON */
+export function detectBatchFormat(path: string): BatchFormat {
+  return extname(path).toLowerCase() === ".csv" ? "csv" : "ndjson";
+}
+
+/** Parse RFC 4180 CSV into records, each with the line it starts on */
+function parseCsv(source: string): Array<{ line: number; fields: string[] }> {
+  const records: Array<{ line: number; fields: string[] }> = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0] !== "") records.push({ line: start, fields });
+    fields = [];
+    field = "";
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const c = source[i];
+    if (quoted) {
+      if (c === '"' && source[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else {
+        if (c === "\n") line++;
+        field += c;
+      }
+    } else if (c === '"' && field === "") {
+      quoted = true;
+    } else if (c === ",") {
+      fields.push(field);
+      field = "";
+    } else if (c === "\n") {
+      endRecord();
+      start = ++line;
+    } else if (c !== "\r") {
+      field += c;
+    }
+  }
+  if (quoted) throw new Error(`line ${start}: unterminated quoted field`);
+  endRecord();
+  return records;
+}
+
+/** Raw records of a batch file as field maps with their line numbers */
+function readRecords(source: string, format: BatchFormat, errors: BatchProblem[]): Array<{ line: number; record: Record<string, unknown> }> {
+  source = source.replace(/^\uFEFF/, "");
+  if (format === "ndjson") {
+    const records: Array<{ line: number; record: Record<string, unknown> }> = [];
+    for (const [i, text] of source.split(/\r?\n/).entries()) {
+      if (!text.trim() || text.trimStart().startsWith("#")) continue;
+      try {
+        const record = JSON.parse(text) as unknown;
+        if (!record || typeof record !== "object" || Array.isArray(record)) throw new Error();
+        records.push({ line: i + 1, record: record as Record<string, unknown> });
+      } catch {
+        errors.push([i + 1, "not a JSON object"]);
+      }
+    }
+    return records;
+  }
+
+  let rows: Array<{ line: number; fields: string[] }>;
+  try {
+    rows = parseCsv(source);
+  } catch (err) {
+    errors.push([0, (err as Error).message]);
+    return [];
+  }
+  const [header, ...data] = rows;
+  if (!header) return [];
+  const columns = header.fields.map((name) => name.trim());
+  const unknown = columns.filter((name) => !(FIELDS as readonly string[]).includes(name));
+  if (unknown.length) {
+    errors.push([header.line, `unknown column(s) ${unknown.join(", ")} (expected ${FIELDS.join(", ")})`]);
+    return [];
+  }
+  if (!columns.includes("op")) {
+    errors.push([header.line, "missing 'op' column"]);
+    return [];
+  }
+  return data.map(({ line, fields }) => {
+    const record: Record<string, unknown> = {};
+    columns.forEach((name, i) => {
+      const value = fields[i]?.trim();
+      if (!value) return;
+      record[name] = name === "media" ? value.split("|").map((ref) => ref.trim()).filter(Boolean) : value;
+    });
+    if (fields.length > columns.length) errors.push([line, "more fields than columns"]);
+    return { line, record };
+  });
+}
+
+/** Validate one record, returning the operation or the problems found */
+function toOperation(line: number, record: Record<string, unknown>): BatchOperation | string[] {
+  const problems: string[] = [];
+  const op = record.op as BatchOp;
+  if (!BATCH_OPS.includes(op)) return [`op must be one of ${BATCH_OPS.join(", ")}`];
+
+  for (const [name, value] of Object.entries(record)) {
+    if (name === "op" || value === undefined || value === null || value === "") continue;
+    if (!ALLOWED_FIELDS[op].includes(name)) problems.push(`'${name}' is not allowed for ${op}`);
+    else if (name === "media" ? !Array.isArray(value) || value.some((v) => typeof v !== "string") : typeof value !== "string") {
+      problems.push(`'${name}' must be ${name === "media" ? "an array of strings" : "a string"}`);
+    }
+  }
+  if (problems.length) return problems;
+
+  const get = (name: string) => (record[name] === "" || record[name] === null ? undefined : record[name] as string | undefined);
+  const operation: Omit<BatchOperation, "hash"> = {
+    line,
+    op,
+    text: get("text"),
+    image: get("image"),
+    video: get("video"),
+    media: record.media as string[] | undefined,
+    reply_to: get("reply_to"),
+    reply_control: get("reply_control") as ReplyControl | undefined,
+    id: get("id"),
+    idempotency_key: get("idempotency_key"),
+  };
+
+  if (op === "delete" || op === "hide" || op === "unhide") {
+    if (!operation.id) problems.push(`${op} requires 'id'`);
+  } else {
+    if (op === "reply" && !operation.reply_to) problems.push("reply requires 'reply_to'");
+    if (op === "carousel" && (!operation.media || operation.media.length < 2 || operation.media.length > 10)) {
+      problems.push("carousel requires 2-10 'media' items");
+    }
+    if (op !== "carousel" && operation.image && operation.video) problems.push("cannot use both 'image' and 'video'");
+    if (op !== "carousel" && !operation.text && !operation.image && !operation.video) {
+      problems.push("provide 'text', 'image' or 'video'");
+    }
+    if (operation.text && Array.from(operation.text).length > MAX_TEXT_LENGTH) {
+      problems.push(`text is longer than ${MAX_TEXT_LENGTH} characters`);
+    }
+    if (operation.reply_control && !REPLY_CONTROLS.includes(operation.reply_control)) {
+      problems.push(`reply_control must be one of ${REPLY_CONTROLS.join(", ")}`);
+    }
+  }
+  if (problems.length) return problems;
+
+  const hash = createHash("sha256").update(JSON.stringify({ ...operation, line: undefined })).digest("hex");
+  return { ...operation, hash };
+}
+
+/**
+ * Read and validate a whole batch file. Every problem is collected first and
+ * reported together, so nothing runs if any line is invalid.
+ */
+export function loadBatchFile(path: string, format: BatchFormat = detectBatchFormat(path)): BatchOperation[] {
+  const errors: BatchProblem[] = [];
+  const operations: BatchOperation[] = [];
+  const keys = new Map<string, number>();
+
+  for (const { line, record } of readRecords(readFileSync(path, "utf-8"), format, errors)) {
+    const result = toOperation(line, record);
+    if (Array.isArray(result)) {
+      errors.push(...result.map((problem): BatchProblem => [line, problem]));
+      continue;
+    }
+    if (result.idempotency_key) {
+      const first = keys.get(result.idempotency_key);
+      if (first) errors.push([line, `idempotency_key '${result.idempotency_key}' is also used on line ${first}`]);
+      else keys.set(result.idempotency_key, line);
+    }
+    operations.push(result);
+  }
+
+  if (errors.length) {
+    errors.sort((a, b) => a[0] - b[0]);
+    const shown = errors.slice(0, 20).map(([line, problem]) => `  ${line ? `line ${line}: ` : ""}${problem}`).join("\n");
+    const more = errors.length > 20 ? `\n  … and ${errors.length - 20} more` : "";
+    throw new Error(`Invalid batch file ${path} (${errors.length} problem(s)):\n${shown}${more}`);
+  }
+  if (!operations.length) throw new Error(`No operations found in ${path}.`);
+  return operations;
+}
+
+/** Last result per line of an earlier report */
+export function readBatchReport(path: string): Map<number, BatchResult> {
+  if (!existsSync(path)) throw new Error(`Report not found: ${path}`);
+  const results = new Map<number, BatchResult>();
+  for (const text of readFileSync(path, "utf-8").split("\n")) {
+    if (!text.trim()) continue;
+    try {
+      const result = JSON.parse(text) as BatchResult;
+      if (typeof result.line === "number") results.set(result.line, result);
+    } catch {
+      // A line cut short by a crash; that operation simply runs again
+    }
+  }
+  return results;
+}
+
+/** Earlier results of operations that succeeded and have not changed since */
+export function completedResults(operations: BatchOperation[], report: Map<number, BatchResult>): Map<number, BatchResult> {
+  const done = new Map<number, BatchResult>();
+  for (const operation of operations) {
+    const previous = report.get(operation.line);
+    if (previous && previous.hash === operation.hash && (previous.status === "ok" || previous.status === "skipped")) {
+      done.set(operation.line, previous);
+    }
+  }
+  return done;
+}
+
+/** Append one result to a report file (one JSON object per line) */
+export function appendBatchResult(path: string, result: BatchResult): void {
+  appendFileSync(path, `${JSON.stringify(result)}\n`, { mode: 0o600 });
+}
+
+/** Operations that publish a post (`posts`) or a reply (`replies`), for the quota check */
+export function countPublishes(operations: BatchOperation[]): { posts: number; replies: number } {
+  let postCount = 0;
+  let replyCount = 0;
+  for (const operation of operations) {
+    if (operation.op === "reply" || (operation.op === "post" && operation.reply_to)) replyCount++;
+    else if (operation.op === "post" || operation.op === "carousel") postCount++;
+  }
+  return { posts: postCount, replies: replyCount };
+}
+
+export interface RunBatchOptions {
+  /** Operations in flight at once. Default: 1 */
+  concurrency?: number;
+  /** Keep going after a failed operation. Default: stop starting new ones */
+  continueOnError?: boolean;
+  /** Earlier results by line; those operations are not run again */
+  completed?: Map<number, BatchResult>;
+  onResult?: (result: BatchResult) => void;
+}
+
+/**
+ * Run operations in file order with up to `concurrency` in flight. Each result
+ * (including skipped lines) goes to `onResult` as soon as it is known.
+ */
+export async function runBatch(
+  operations: BatchOperation[],
+  execute: (operation: BatchOperation) => Promise<{ id?: string }>,
+  options: RunBatchOptions = {},
+): Promise<BatchResult[]> {
+  const results: BatchResult[] = [];
+  const report = (result: BatchResult) => {
+    results.push(result);
+    options.onResult?.(result);
+  };
+
+  const pending: BatchOperation[] = [];
+  for (const operation of operations) {
+    const previous = options.completed?.get(operation.line);
+    if (previous) {
+      report({ line: operation.line, op: operation.op, hash: operation.hash, status: "skipped", id: previous.id, at: new Date().toISOString() });
+    } else {
+      pending.push(operation);
+    }
+  }
+
+  let next = 0;
+  let stopped = false;
+  const worker = async () => {
+    while (!stopped && next < pending.length) {
+      const operation = pending[next++];
+      const base = { line: operation.line, op: operation.op, hash: operation.hash };
+      try {
+        const { id } = await execute(operation);
+        report({ ...base, status: "ok", id: id ?? operation.id, at: new Date().toISOString() });
+      } catch (err) {
+        report({ ...base, status: "failed", error: (err as Error).message, at: new Date().toISOString() });
+        if (!options.continueOnError) stopped = true;
+      }
+    }
+  };
+
+  const concurrency = Math.max(1, Math.min(options.concurrency ?? 1, pending.length || 1));
+  await Promise.all(Array.from({ length: concurrency }, worker));
+  return results;
+}
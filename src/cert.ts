@@ -0,0 +1,92 @@
+import { generateKeyPairSync, randomBytes, sign } from "crypto";
+import { isIP } from "net";
+
+/*
+ * Minimal DER encoder for a self-signed X.509 v3 certificate, so the OAuth
+ * callback server works without an `openssl` binary. Only the structures a
+ * TLS server certificate needs are covered.
+ */
+
+function derLength(length: number): Buffer {
+  if (length < 0x80) return Buffer.from([length]);
+  const bytes: number[] = [];
+  for (let n = length; n > 0; n = Math.floor(n / 256)) bytes.unshift(n & 0xff);
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+}
+
+function der(tag: number, ...content: Buffer[]): Buffer {
+  const body = Buffer.concat(content);
+  return Buffer.concat([Buffer.from([tag]), derLength(body.length), body]);
+}
+
+const sequence = (...items: Buffer[]) => der(0x30, ...items);
+const set = (...items: Buffer[]) => der(0x31, ...items);
+const explicit = (n: number, item: Buffer) => der(0xa0 + n, item);
+
+function oid(dotted: string): Buffer {
+  const [first, second, ...rest] = dotted.split(".").map(Number);
+  const bytes = [first * 40 + second];
+  for (const arc of rest) {
+    const chunk = [arc & 0x7f];
+    for (let n = arc >> 7; n > 0; n >>= 7) chunk.unshift((n & 0x7f) | 0x80);
+    bytes.push(...chunk);
+  }
+  return der(0x06, Buffer.from(bytes));
+}
+
+function integer(value: Buffer): Buffer {
+  // Positive INTEGERs need a leading zero when the high bit is set
+  return der(0x02, value[0] & 0x80 ? Buffer.concat([Buffer.from([0]), value]) : value);
+}
+
+function utcTime(date: Date): Buffer {
+  const text = date.toISOString().replace(/[-:T]/g, "").slice(2, 14) + "Z";
+  return der(0x17, Buffer.from(text, "ascii"));
+}
+
+const ECDSA_WITH_SHA256 = "1.2.840.10045.4.3.2";
+const COMMON_NAME = "2.5.4.3";
+const SUBJECT_ALT_NAME = "2.5.29.17";
+
+function subjectAltNames(hosts: string[]): Buffer {
+  const names = hosts.map((host) => {
+    if (isIP(host) === 4) return der(0x87, Buffer.from(host.split(".").map(Number)));
+    return der(0x82, Buffer.from(host, "ascii"));
+  });
+  return sequence(oid(SUBJECT_ALT_NAME), der(0x04, sequence(...names)));
+}
+
+/**
+ * Generate a PEM key and self-signed certificate (ECDSA P-256, SHA-256) for
+ * `hosts` (DNS names or IPv4 addresses), valid from an hour ago for `days`.
+ */
+export function generateSelfSignedCert(
+  hosts: string[] = ["localhost", "127.0.0.1"],
+  days = 1,
+): { key: string; cert: string } {
+  const { privateKey, publicKey } = generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+  const algorithm = sequence(oid(ECDSA_WITH_SHA256));
+  const name = sequence(set(sequence(oid(COMMON_NAME), der(0x0c, Buffer.from(hosts[0], "utf-8")))));
+  const now = Date.now();
+  const serial = randomBytes(16);
+  serial[0] = (serial[0] & 0x7f) || 1; // positive, minimal encoding
+
+  const tbs = sequence(
+    explicit(0, integer(Buffer.from([2]))),
+    integer(serial),
+    algorithm,
+    name,
+    sequence(utcTime(new Date(now - 60 * 60 * 1000)), utcTime(new Date(now + days * 24 * 60 * 60 * 1000))),
+    name,
+    publicKey.export({ type: "spki", format: "der" }),
+    explicit(3, sequence(subjectAltNames(hosts))),
+  );
+  const signature = sign("sha256", tbs, privateKey);
+  const certificate = sequence(tbs, algorithm, der(0x03, Buffer.from([0]), signature));
+
+  const base64 = certificate.toString("base64").match(/.{1,64}/g)!.join("\n");
+  return {
+    key: privateKey.export({ type: "pkcs8", format: "pem" }) as string,
+    cert: `-----BEGIN CERTIFICATE-----\n${base64}\n-----END CERTIFICATE-----\n`,
+  };
+}
@@ -0,0 +1,46 @@
+import { displayWidth, terminalWidth } from "./output.js";
+
+const SPARK_CHARS = "▁▂▃▄▅▆▇█";
+const BAR_CHAR = "█";
+
+/** One-line sparkline (▁…█) scaled between the series minimum and maximum */
+export function sparkline(values: number[]): string {
+  if (!values.length) return "";
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const steps = SPARK_CHARS.length - 1;
+  return values
+    .map((v) => SPARK_CHARS[max === min ? (max > 0 ? steps : 0) : Math.round(((v - min) / (max - min)) * steps)])
+    .join("");
+}
+
+function padLabel(label: string, width: number): string {
+  return label + " ".repeat(Math.max(0, width - displayWidth(label)));
+}
+
+/**
+ * Horizontal bar chart lines (`label  ████ value`), bars scaled to the largest value.
+ * With `percent`, each value is followed by its share of the total.
+ */
+export function barChart(
+  rows: Array<{ label: string; value: number }>,
+  options?: { width?: number; percent?: boolean },
+): string[] {
+  if (!rows.length) return [];
+  const width = options?.width ?? terminalWidth();
+  const total = rows.reduce((sum, r) => sum + r.value, 0);
+  const max = Math.max(...rows.map((r) => r.value), 1);
+
+  const labelWidth = Math.max(...rows.map((r) => displayWidth(r.label)));
+  const valueText = rows.map((r) => {
+    const value = r.value.toLocaleString();
+    return options?.percent && total > 0 ? `${value} (${((r.value / total) * 100).toFixed(1)}%)` : value;
+  });
+  const valueWidth = Math.max(...valueText.map((v) => v.length));
+  const barWidth = Math.max(10, width - labelWidth - valueWidth - 4);
+
+  return rows.map((r, i) => {
+    const bar = BAR_CHAR.repeat(Math.round((r.value / max) * barWidth));
+    return `${padLabel(r.label, labelWidth)}  ${bar.padEnd(barWidth)}  ${valueText[i].padStart(valueWidth)}`;
+  });
+}
@@ -2,37 +2,324 @@
 
 import { Command } from "commander";
 import chalk from "chalk";
-import { loadConfig, saveConfig, getConfigPath } from "./config.js";
-import { ThreadsClient } from "./client/index.js";
+import open from "open";
+import {
+  loadConfig,
+  saveConfig,
+  getConfigPath,
+  setActiveProfile,
+  getActiveProfileName,
+  listProfiles,
+  removeProfile,
+  setDefaultProfile,
+  getMediaHostingConfig,
+  getWebhooksConfig,
+  clearCredentials,
+  getTokenSource,
+  isConfigEncrypted,
+  setConfigPassphrase,
+  encryptConfigFile,
+  decryptConfigFile,
+  validateProfileName,
+} from "./config.js";
+import { MediaUploadSession, isLocalMedia } from "./hosting.js";
+import {
+  ThreadsClient,
+  ThreadsApiError,
+  ThreadsAuthError,
+  ThreadsTokenExpiredError,
+  ThreadsPermissionError,
+  ThreadsRateLimitError,
+  ThreadsValidationError,
+  ThreadsNotFoundError,
+  createRecordingFetch,
+  createReplayFetch,
+  type FetchLike,
+} from "./client/index.js";
 import * as posts from "./client/posts.js";
 import * as profiles from "./client/profiles.js";
 import * as replies from "./client/replies.js";
 import * as insights from "./client/insights.js";
-import { authenticate, refreshToken } from "./auth.js";
+import * as search from "./client/search.js";
+import { collectPages, type PageParams } from "./client/pagination.js";
+import type {
+  DemographicBreakdown,
+  PaginatedResult,
+  PublicProfile,
+  PublishingLimit,
+  ThreadSegment,
+  ThreadsInsight,
+  ThreadsPost,
+  ThreadsUser,
+} from "./client/types.js";
+import {
+  authenticate,
+  type AuthenticateOptions,
+  debugToken,
+  ensureFreshToken,
+  refreshStoredToken,
+  setAuthTransport,
+} from "./auth.js";
+import { readState, writeState } from "./state.js";
+import {
+  formatOutput,
+  isRowFormat,
+  parseFields,
+  parseOutputFormat,
+  RecordWriter,
+  terminalWidth,
+  type OutputOptions,
+} from "./output.js";
+import { barChart, sparkline } from "./charts.js";
+import * as schedule from "./schedule.js";
+import * as analytics from "./analytics.js";
+import * as inbox from "./inbox.js";
+import * as moderation from "./moderation.js";
+import * as webhooks from "./webhooks.js";
+import * as journal from "./journal.js";
+import * as batch from "./batch.js";
+import * as archive from "./archive.js";
+import * as preflight from "./preflight.js";
 import { createInterface } from "readline";
+import { Writable } from "stream";
+import { readFileSync, writeFileSync } from "fs";
+import { createHash } from "crypto";
+import { dirname, resolve as resolvePath } from "path";
 
-let jsonOutput = process.argv.includes("--json");
+/** True when --json/--format/--fields/--template is given; progress chatter is suppressed */
+let structuredOutput = ["--json", "--format", "--fields", "--template"]
+  .some((flag) => process.argv.some((arg) => arg === flag || arg.startsWith(`${flag}=`)));
+let outputOptions: OutputOptions = { format: process.argv.includes("--json") ? "json" : "table" };
 
-function getClient(): ThreadsClient {
-  const config = loadConfig();
+/** Process exit codes (documented in README) */
+const EXIT_CODES = {
+  ERROR: 1,
+  AUTH: 3,
+  TOKEN_EXPIRED: 4,
+  PERMISSION: 5,
+  RATE_LIMIT: 6,
+  VALIDATION: 7,
+  NOT_FOUND: 8,
+  API: 9,
+} as const;
+
+function exitCodeFor(err: Error): number {
+  if (err instanceof ThreadsTokenExpiredError) return EXIT_CODES.TOKEN_EXPIRED;
+  if (err instanceof ThreadsAuthError) return EXIT_CODES.AUTH;
+  if (err instanceof ThreadsPermissionError) return EXIT_CODES.PERMISSION;
+  if (err instanceof ThreadsRateLimitError) return EXIT_CODES.RATE_LIMIT;
+  if (err instanceof ThreadsValidationError) return EXIT_CODES.VALIDATION;
+  if (err instanceof ThreadsNotFoundError) return EXIT_CODES.NOT_FOUND;
+  if (err instanceof ThreadsApiError) return EXIT_CODES.API;
+  return EXIT_CODES.ERROR;
+}
+
+let envTransport: FetchLike | undefined;
+
+/**
+ * Fetch override from THRD_REPLAY / THRD_RECORD (fixture file paths). Created once
+ * and shared by every client and the token endpoints, so a run that builds several
+ * clients records (or replays) one fixture file.
+ */
+function transportFromEnv(): FetchLike | undefined {
+  if (envTransport) return envTransport;
+  if (process.env.THRD_REPLAY) envTransport = createReplayFetch(resolvePath(process.env.THRD_REPLAY));
+  else if (process.env.THRD_RECORD) envTransport = createRecordingFetch(resolvePath(process.env.THRD_RECORD));
+  return envTransport;
+}
+
+/** Client for a profile, refreshing its token first when it is about to expire */
+async function getClient(profile?: string, options?: { refresh?: boolean }): Promise<ThreadsClient> {
+  if (options?.refresh !== false && !process.env.THRD_REPLAY) {
+    await ensureFreshToken(profile ?? getActiveProfileName(), {
+      onRefresh: (expiresAt) => {
+        if (!structuredOutput) console.error(chalk.dim(`Access token refreshed${expiresAt ? ` (expires ${expiresAt})` : ""}.`));
+      },
+      onError: (err) => console.warn(chalk.yellow("⚠"), `Automatic token refresh failed: ${err.message}`),
+    });
+  }
+  const config = loadConfig(profile);
   return new ThreadsClient(config, {
-    onRateLimit: jsonOutput ? undefined : (msg) => console.warn(chalk.yellow("⚠"), msg),
+    fetch: transportFromEnv(),
+    baseUrl: process.env.THRD_API_URL,
+    onRateLimit: structuredOutput ? undefined : (msg) => console.warn(chalk.yellow("⚠"), msg),
   });
 }
 
 /** Ensure client has user_id; if missing, fetch via /me and save to config */
-async function ensureUserId(client: ThreadsClient): Promise<void> {
+async function ensureUserId(client: ThreadsClient, profile?: string): Promise<void> {
   if (client.userId) return;
   const user = await profiles.me(client);
   client.userId = user.id;
-  saveConfig({ user_id: user.id });
-  if (!jsonOutput) console.log(chalk.dim(`Auto-resolved user_id: ${user.id}`));
+  saveConfig({ user_id: user.id }, profile);
+  if (!structuredOutput) console.log(chalk.dim(`Auto-resolved user_id: ${user.id}`));
+}
+
+/** Start a media session that uploads local files through the configured host */
+function createMediaSession(baseDir?: string): MediaUploadSession {
+  return new MediaUploadSession(getMediaHostingConfig(), baseDir, {
+    onCleanupError: (url, err) => {
+      console.warn(chalk.yellow("⚠"), `Could not delete uploaded media ${url}: ${err.message}`);
+    },
+  });
+}
+
+/** Local media references in a list, for dry-run previews */
+function localMediaRefs(refs: Array<string | undefined>): string[] {
+  return refs.filter((r): r is string => Boolean(r) && isLocalMedia(r as string));
+}
+
+/**
+ * Check media against the Threads limits before any container is created, printing
+ * warnings; returns the detected type of each item. Skipped with --no-preflight and
+ * when replaying fixtures.
+ */
+async function preflightMedia(
+  items: Array<{ ref?: string; expected?: preflight.MediaKind }>,
+  options?: { baseDir?: string; enabled?: boolean },
+): Promise<Array<preflight.MediaKind | undefined>> {
+  if (options?.enabled === false || process.env.THRD_REPLAY) return items.map(() => undefined);
+  const refs = items.filter((item): item is { ref: string; expected?: preflight.MediaKind } => Boolean(item.ref));
+  const checks = await preflight.preflightMedia(refs, { baseDir: options?.baseDir });
+  for (const check of checks) {
+    for (const warning of check.warnings) console.warn(chalk.yellow("⚠"), `${check.source}: ${warning}`);
+  }
+  const types = new Map(checks.map((check) => [check.source, check.media_type]));
+  return items.map((item) => (item.ref ? types.get(item.ref) : undefined));
+}
+
+/** Publish through the container journal for the active profile, honouring --idempotency-key */
+function publishJournaled(
+  client: ThreadsClient,
+  payload: Record<string, unknown>,
+  idempotencyKey: string | undefined,
+  create: Parameters<typeof journal.publishJournaled>[2],
+): Promise<journal.JournaledResult> {
+  return journal.publishJournaled(client, { profile: getActiveProfileName(), payload, idempotencyKey }, create);
+}
+
+function journaledOutput(result: journal.JournaledResult, idempotencyKey?: string): object {
+  return idempotencyKey ? { ...result, idempotency_key: idempotencyKey, idempotent: result.idempotent ?? null } : result;
+}
+
+/** Suffix for human output when a retry reused an earlier attempt */
+function idempotencyNote(result: journal.JournaledResult): string {
+  if (result.idempotent === "published") return ", already published";
+  if (result.idempotent === "resumed") return ", published earlier container";
+  return "";
 }
 
 function printJson(value: unknown): void {
   console.log(JSON.stringify(value, null, 2));
 }
 
+/** Records of a result for row formats: list items, paged `data`, or the value itself */
+function resultRows(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  const data = (value as { data?: unknown } | null)?.data;
+  return Array.isArray(data) ? data : [value];
+}
+
+/** Default table columns for post listings (other formats show every field) */
+const POST_TABLE_FIELDS = ["id", "timestamp", "username", "text"];
+
+/**
+ * Print a command result in the selected --format. `rows` override the records used by
+ * table/csv/ndjson/template; `tableFields` are the table columns when --fields is not given
+ * (and the CSV header when there are no rows). The resume cursor of a listing goes to stderr
+ * for row formats.
+ */
+function printOutput(value: unknown, rows: unknown[] = resultRows(value), tableFields?: string[]): void {
+  const useTableFields = outputOptions.format === "table" || (outputOptions.format === "csv" && !rows.length);
+  const options = useTableFields && !outputOptions.fields && tableFields
+    ? { ...outputOptions, fields: tableFields }
+    : outputOptions;
+  const output = formatOutput(value, rows, options);
+  if (output) console.log(output);
+  const nextCursor = (value as { next_cursor?: string } | null)?.next_cursor;
+  if (nextCursor && isRowFormat(outputOptions.format)) console.error(chalk.dim(`More available: --after ${nextCursor}`));
+}
+
+/** Streaming writer for long-running commands; `tableFields` as in printOutput */
+function createRecordWriter(tableFields?: string[]): RecordWriter {
+  const options = outputOptions.format === "table" && !outputOptions.fields && tableFields
+    ? { ...outputOptions, fields: tableFields }
+    : outputOptions;
+  return new RecordWriter(options);
+}
+
+interface ListOptions {
+  limit: string;
+  all?: boolean;
+  max?: string;
+  after?: string;
+  before?: string;
+  since?: string;
+  until?: string;
+}
+
+/** Largest page size the Graph API accepts */
+const MAX_PAGE_SIZE = 100;
+
+/** Add the shared pagination/date-range options to a listing command */
+function withListOptions(cmd: Command, noun: string): Command {
+  return cmd
+    .option("-n, --limit <n>", `Number of ${noun} (page size with --all)`, "10")
+    .option("--all", `Fetch all ${noun} across pages`)
+    .option("--max <n>", `Fetch up to n ${noun} across pages`)
+    .option("--after <cursor>", "Start after this paging cursor")
+    .option("--before <cursor>", "Start before this paging cursor")
+    .option("--since <date>", "Only items on or after this date (ISO 8601 or unix seconds)")
+    .option("--until <date>", "Only items on or before this date (ISO 8601 or unix seconds)");
+}
+
+/** Parse an ISO date or unix timestamp (seconds) into unix seconds */
+function parseDateOption(value: string | undefined, flag: string): number | undefined {
+  if (value === undefined) return undefined;
+  if (/^\d+$/.test(value)) return parseInt(value, 10);
+  const ms = new Date(value).getTime();
+  if (Number.isNaN(ms)) throw new Error(`Invalid ${flag} date '${value}'. Use ISO 8601 or unix seconds.`);
+  return Math.floor(ms / 1000);
+}
+
+/**
+ * Fetch posts across pages according to ListOptions.
+ * `apiRange` means the endpoint filters since/until itself; otherwise items are filtered by timestamp here.
+ */
+async function listPosts(
+  client: ThreadsClient,
+  fetchPage: (client: ThreadsClient, params: PageParams & { since?: number; until?: number }) => Promise<PaginatedResult<ThreadsPost>>,
+  opts: ListOptions,
+  apiRange = false,
+): Promise<{ data: ThreadsPost[]; next_cursor?: string }> {
+  const limit = parseInt(opts.limit, 10);
+  const since = parseDateOption(opts.since, "--since");
+  const until = parseDateOption(opts.until, "--until");
+  const max = opts.all ? undefined : opts.max ? parseInt(opts.max, 10) : limit;
+
+  const inRange = (p: ThreadsPost) => {
+    if (!p.timestamp) return true;
+    const t = Math.floor(new Date(p.timestamp).getTime() / 1000);
+    return (since === undefined || t >= since) && (until === undefined || t <= until);
+  };
+
+  return collectPages<ThreadsPost>(client, async (c, params) => {
+    if (apiRange) return fetchPage(c, { ...params, since, until });
+    const page = await fetchPage(c, params);
+    return { ...page, data: (page.data ?? []).filter(inRange) };
+  }, {
+    after: opts.after,
+    before: opts.before,
+    max,
+    pageSize: opts.all || opts.max ? Math.min(Math.max(limit, 25), MAX_PAGE_SIZE) : limit,
+  });
+}
+
+/** Print the resume hint for a listing in human-readable mode */
+function printNextCursor(nextCursor: string | undefined): void {
+  if (nextCursor) console.log(chalk.dim(`More available: --after ${nextCursor}`));
+}
+
 async function prompt(question: string): Promise<string> {
   const rl = createInterface({ input: process.stdin, output: process.stdout });
   return new Promise((resolve) => {
@@ -43,22 +330,85 @@ async function prompt(question: string): Promise<string> {
   });
 }
 
+/** Prompt on stderr without echoing the answer (passphrases) */
+async function promptSecret(question: string): Promise<string> {
+  if (!process.stdin.isTTY) throw new Error("Cannot prompt for a passphrase without a terminal. Set THRD_PASSPHRASE.");
+  process.stderr.write(question);
+  // readline echoes what is typed to its output; give it one that discards everything
+  const muted = new Writable({ write: (_chunk, _encoding, callback) => callback() });
+  const rl = createInterface({ input: process.stdin, output: muted, terminal: true });
+  return new Promise((resolve) => {
+    rl.question("", (answer) => {
+      rl.close();
+      process.stderr.write("\n");
+      resolve(answer);
+    });
+  });
+}
+
 const program = new Command()
   .name("thrd")
   .description("A fast, lightweight CLI for the Threads API")
   .version("0.1.0")
-  .option("--json", "Output raw JSON");
+  .option("--json", "Output raw JSON (same as --format json)")
+  .option("--format <format>", "Output format: table, csv, ndjson, yaml, json, template")
+  .option("--fields <list>", "Comma-separated fields/columns to output (dotted paths allowed)")
+  .option("--template <pattern>", "Line template for --format template, e.g. '{{id}} {{permalink}}'")
+  .option("--profile <name>", "Account profile to use (env: THRD_PROFILE)");
 
-program.hook("preAction", (thisCommand) => {
-  jsonOutput = Boolean(thisCommand.optsWithGlobals().json);
+program.hook("preAction", async (thisCommand) => {
+  const globals = thisCommand.optsWithGlobals();
+  const format = globals.format
+    ? parseOutputFormat(globals.format)
+    : globals.template ? "template" : globals.fields ? "table" : globals.json ? "json" : undefined;
+  structuredOutput = format !== undefined;
+  outputOptions = { format: format ?? "table", fields: parseFields(globals.fields), template: globals.template };
+  setActiveProfile(globals.profile);
+  setAuthTransport(transportFromEnv());
+  if (isConfigEncrypted() && !process.env.THRD_PASSPHRASE) {
+    setConfigPassphrase(await promptSecret("Config passphrase: "));
+  }
 });
 
+interface OAuthCliOptions {
+  port: string;
+  manual?: boolean;
+  scopes?: string;
+  redirectUri?: string;
+}
+
+function withOAuthOptions(cmd: Command): Command {
+  return cmd
+    .option("-p, --port <port>", "OAuth callback server port", "3000")
+    .option("--manual", "Headless login: print the authorize URL and paste back the redirected URL")
+    .option("--scopes <list>", "Comma-separated scopes to request; 'default' adds the standard set (threads_basic is always included)")
+    .option("--redirect-uri <uri>", "Redirect URI registered for the app (env: THRD_REDIRECT_URI)");
+}
+
+/** authenticate() options from the shared OAuth flags */
+function oauthOptions(opts: OAuthCliOptions, profile?: string): AuthenticateOptions {
+  return {
+    port: parseInt(opts.port, 10),
+    profile,
+    scopes: opts.scopes?.split(",").map((scope) => scope.trim()).filter(Boolean),
+    redirectUri: opts.redirectUri ?? process.env.THRD_REDIRECT_URI,
+    manual: opts.manual
+      ? async (authorizeUrl) => {
+        console.log("Open this URL in a browser on any machine and authorize the app:");
+        console.log(authorizeUrl);
+        console.log(chalk.dim("The browser then goes to the redirect URI (the page may fail to load). Copy that URL from the address bar."));
+        return prompt("Redirected URL: ");
+      }
+      : undefined,
+  };
+}
+
 // ─── auth ───
-program
+const authCmd = withOAuthOptions(program
   .command("auth")
-  .description("Authenticate via OAuth 2.0 (opens browser)")
-  .option("-p, --port <port>", "Callback server port", "3000")
-  .action(async (opts: { port: string }) => {
+  .description("Authenticate via OAuth 2.0 (opens browser, or --manual for headless hosts)")
+  .enablePositionalOptions())
+  .action(async (opts: OAuthCliOptions) => {
     const appId = process.env.THREADS_APP_ID ?? await prompt("App ID: ");
     const appSecret = process.env.THREADS_APP_SECRET ?? await prompt("App Secret: ");
 
@@ -67,16 +417,188 @@ program
       process.exit(1);
     }
 
-    const port = parseInt(opts.port, 10);
-    if (!jsonOutput) console.log(chalk.dim("Starting OAuth flow..."));
+    if (!structuredOutput) console.log(chalk.dim("Starting OAuth flow..."));
+
+    await authenticate(appId, appSecret, oauthOptions(opts));
+
+    const profile = getActiveProfileName();
+    if (structuredOutput) {
+      printOutput({ success: true, profile, config_path: getConfigPath() });
+    } else {
+      console.log(chalk.green("✓"), `Authenticated! Config saved to ${getConfigPath()} (profile: ${profile})`);
+    }
+  });
+
+/** Unix seconds as an ISO timestamp (null for 0 / missing, meaning "never") */
+function unixToIso(seconds: number | undefined): string | null {
+  return seconds ? new Date(seconds * 1000).toISOString() : null;
+}
+
+authCmd
+  .command("status")
+  .description("Show the token's user, granted scopes, and issue/expiry times")
+  .action(async () => {
+    const profile = getActiveProfileName();
+    const config = loadConfig(profile, { warnExpiry: false });
+    const client = await getClient(profile, { refresh: false });
+    const info = await debugToken(client, config.access_token);
+    const user = info.is_valid ? await profiles.me(client) : undefined;
+    const status = {
+      profile,
+      source: getTokenSource(profile),
+      is_valid: info.is_valid,
+      user_id: info.user_id ?? user?.id ?? config.user_id ?? null,
+      username: user?.username ?? null,
+      application: info.application ?? null,
+      type: info.type ?? null,
+      scopes: info.scopes ?? [],
+      issued_at: unixToIso(info.issued_at),
+      expires_at: unixToIso(info.expires_at),
+      data_access_expires_at: unixToIso(info.data_access_expires_at),
+    };
+    if (structuredOutput) { printOutput(status); return; }
+
+    const who = status.username ? `@${status.username}` : status.user_id ?? "unknown user";
+    console.log(chalk.bold(who), chalk.dim(`(profile: ${profile}, token from ${status.source})`));
+    console.log(status.is_valid ? chalk.green("✓ Token is valid") : chalk.red("✗ Token is invalid"));
+    if (status.application) console.log(`${chalk.dim("App:      ")} ${status.application}`);
+    console.log(`${chalk.dim("Scopes:   ")} ${status.scopes.length ? status.scopes.join(", ") : chalk.dim("none")}`);
+    if (status.issued_at) console.log(`${chalk.dim("Issued:   ")} ${new Date(status.issued_at).toLocaleString()}`);
+    if (status.expires_at) {
+      const daysLeft = Math.ceil((Date.parse(status.expires_at) - Date.now()) / (24 * 60 * 60 * 1000));
+      console.log(`${chalk.dim("Expires:  ")} ${new Date(status.expires_at).toLocaleString()} ${chalk.dim(`(${daysLeft > 0 ? `in ${daysLeft} day(s)` : "expired"})`)}`);
+    } else {
+      console.log(`${chalk.dim("Expires:  ")} never`);
+    }
+  });
+
+authCmd
+  .command("logout")
+  .description("Clear the profile's stored token, user ID and expiry (the token itself stays valid)")
+  .option("--forget-app", "Also remove the stored app ID and secret")
+  .action((opts: { forgetApp?: boolean }) => {
+    const profile = getActiveProfileName();
+    const cleared = clearCredentials(profile, { forgetApp: opts.forgetApp });
+
+    if (structuredOutput) { printOutput({ success: true, profile, cleared }); return; }
+    console.log(cleared ? chalk.green("✓") : chalk.dim("·"),
+      cleared ? `Cleared stored credentials for profile '${profile}'.` : `No stored credentials for profile '${profile}'.`);
+    if (process.env.THREADS_ACCESS_TOKEN) console.log(chalk.dim("THREADS_ACCESS_TOKEN is still set in the environment."));
+    console.log(chalk.dim("The Threads API cannot revoke tokens; remove the app under Settings → Account → Website permissions in Threads to invalidate it."));
+  });
+
+// ─── accounts ───
+const accounts = program
+  .command("accounts")
+  .description("Manage named account profiles");
+
+accounts
+  .command("list")
+  .description("List stored profiles")
+  .action(() => {
+    const { default_profile, profiles: stored } = listProfiles();
+    const active = getActiveProfileName();
+    const rows = Object.entries(stored).map(([name, p]) => ({
+      name,
+      default: name === default_profile,
+      active: name === active,
+      user_id: p.user_id ?? null,
+      expires_at: p.expires_at ?? null,
+    }));
+    if (structuredOutput) { printOutput({ default_profile, active_profile: active, profiles: rows }, rows); return; }
+
+    if (!rows.length) {
+      console.log(chalk.dim("No profiles. Run 'thrd accounts add <name>' or 'thrd auth'."));
+      return;
+    }
+    for (const row of rows) {
+      const marker = row.active ? chalk.green("*") : " ";
+      const tags = row.default ? chalk.dim(" (default)") : "";
+      const details = [
+        row.user_id ? `user_id: ${row.user_id}` : null,
+        row.expires_at ? `expires: ${row.expires_at}` : null,
+      ].filter(Boolean).join(", ");
+      console.log(`${marker} ${chalk.bold(row.name)}${tags}`, details ? chalk.dim(details) : "");
+    }
+  });
+
+withOAuthOptions(accounts
+  .command("add <name>")
+  .description("Add a profile (runs OAuth unless --access-token is given)")
+  .option("--app-id <id>", "App ID")
+  .option("--app-secret <secret>", "App Secret")
+  .option("--access-token <token>", "Existing long-lived access token")
+  .option("--user-id <id>", "Threads user ID"))
+  .action(async (name: string, opts: OAuthCliOptions & {
+    appId?: string; appSecret?: string; accessToken?: string; userId?: string;
+  }) => {
+    validateProfileName(name);
+    const appId = opts.appId ?? process.env.THREADS_APP_ID ?? await prompt("App ID: ");
+    const appSecret = opts.appSecret ?? process.env.THREADS_APP_SECRET ?? await prompt("App Secret: ");
 
-    await authenticate(appId, appSecret, port);
+    if (!appId || !appSecret) {
+      console.error(chalk.red("✗"), "App ID and App Secret are required.");
+      process.exit(1);
+    }
 
-    if (jsonOutput) {
-      printJson({ success: true, config_path: getConfigPath() });
+    if (opts.accessToken) {
+      saveConfig({ app_id: appId, app_secret: appSecret, access_token: opts.accessToken, user_id: opts.userId }, name);
     } else {
-      console.log(chalk.green("✓"), `Authenticated! Config saved to ${getConfigPath()}`);
+      if (!structuredOutput) console.log(chalk.dim(`Starting OAuth flow for profile '${name}'...`));
+      await authenticate(appId, appSecret, oauthOptions(opts, name));
     }
+
+    if (structuredOutput) { printOutput({ success: true, profile: name }); return; }
+    console.log(chalk.green("✓"), `Profile '${name}' saved.`);
+  });
+
+accounts
+  .command("remove <name>")
+  .description("Remove a profile")
+  .action((name: string) => {
+    const removed = removeProfile(name);
+    if (structuredOutput) { printOutput({ profile: name, removed }); return; }
+    console.log(removed ? chalk.green("✓ Removed") : chalk.red("✗ Not found"), name);
+  });
+
+accounts
+  .command("use <name>")
+  .description("Set the default profile")
+  .action((name: string) => {
+    setDefaultProfile(name);
+    if (structuredOutput) { printOutput({ default_profile: name }); return; }
+    console.log(chalk.green("✓"), `Default profile set to '${name}'.`);
+  });
+
+// ─── config ───
+const configCmd = program
+  .command("config")
+  .description("Manage the config file");
+
+configCmd
+  .command("encrypt")
+  .description("Encrypt config.json with a passphrase (scrypt + AES-256-GCM)")
+  .action(async () => {
+    let passphrase = process.env.THRD_PASSPHRASE;
+    if (!passphrase) {
+      passphrase = await promptSecret("New passphrase: ");
+      if (!passphrase) throw new Error("Passphrase cannot be empty.");
+      if (await promptSecret("Repeat passphrase: ") !== passphrase) throw new Error("Passphrases do not match.");
+    }
+    encryptConfigFile(passphrase);
+
+    if (structuredOutput) { printOutput({ success: true, encrypted: true, config_path: getConfigPath() }); return; }
+    console.log(chalk.green("✓"), `Encrypted ${getConfigPath()}`);
+    console.log(chalk.dim("Unlock with the passphrase prompt or THRD_PASSPHRASE. Run 'thrd config decrypt' to undo."));
+  });
+
+configCmd
+  .command("decrypt")
+  .description("Store config.json as plaintext JSON again")
+  .action(() => {
+    decryptConfigFile();
+    if (structuredOutput) { printOutput({ success: true, encrypted: false, config_path: getConfigPath() }); return; }
+    console.log(chalk.green("✓"), `Decrypted ${getConfigPath()}`);
   });
 
 // ─── refresh ───
@@ -84,17 +606,10 @@ program
   .command("refresh")
   .description("Refresh the long-lived access token")
   .action(async () => {
-    const config = loadConfig();
-    const result = await refreshToken(config.access_token);
-
-    const expiresAt = result.expires_in
-      ? new Date(Date.now() + result.expires_in * 1000).toISOString()
-      : undefined;
-
-    saveConfig({ access_token: result.access_token, expires_at: expiresAt });
+    const { expires_at: expiresAt } = await refreshStoredToken(getActiveProfileName());
 
-    if (jsonOutput) {
-      printJson({ success: true, expires_at: expiresAt });
+    if (structuredOutput) {
+      printOutput({ success: true, expires_at: expiresAt });
     } else {
       console.log(chalk.green("✓"), "Token refreshed.");
       if (expiresAt) console.log(chalk.dim(`Expires: ${expiresAt}`));
@@ -106,29 +621,77 @@ program
   .command("me")
   .description("Show authenticated user profile")
   .action(async () => {
-    const client = getClient();
+    const client = await getClient();
     const user = await profiles.me(client);
     // Auto-save user_id to config if not already set
     if (!client.userId && user.id) {
       saveConfig({ user_id: user.id });
     }
-    if (jsonOutput) { printJson(user); return; }
-    console.log(chalk.bold(`@${user.username ?? user.id}`));
-    if (user.threads_biography) console.log(user.threads_biography);
+    if (structuredOutput) { printOutput(user); return; }
+    printProfile(user);
+  });
+
+// ─── user ───
+/** Print `/me` or a public profile; each has only some of these fields */
+function printProfile(user: Partial<ThreadsUser & PublicProfile>): void {
+  const header = [chalk.bold(`@${user.username ?? user.id}`)];
+  if (user.is_verified) header.push(chalk.blue("✓ verified"));
+  if (user.name) header.push(chalk.dim(user.name));
+  console.log(...header);
+  const bio = user.biography ?? user.threads_biography;
+  if (bio) console.log(bio);
+  const counts: Array<[string, number | undefined]> = [
+    ["followers", user.follower_count],
+    ["likes", user.likes_count],
+    ["replies", user.replies_count],
+    ["reposts", user.reposts_count],
+    ["quotes", user.quotes_count],
+    ["views", user.views_count],
+  ];
+  const shown = counts.filter(([, n]) => n !== undefined).map(([label, n]) => `${chalk.bold(n!.toLocaleString())} ${label}`);
+  if (shown.length) console.log(shown.join(chalk.dim(" · ")));
+}
+
+withListOptions(program.command("user <username-or-id>"), "posts")
+  .description("Show a public profile, or list its posts with --posts")
+  .option("--posts", "List the profile's public posts instead")
+  .action(async (target: string, opts: ListOptions & { posts?: boolean }) => {
+    const client = await getClient();
+    // Numeric IDs only resolve through the node endpoint; public lookups go by username
+    const username = /^\d+$/.test(target) ? (await profiles.getProfile(client, target)).username : target.replace(/^@/, "");
+    if (!username) throw new Error(`Could not resolve a username for ${target}.`);
+
+    if (!opts.posts) {
+      const user = await profiles.lookupProfile(client, username);
+      if (structuredOutput) { printOutput(user); return; }
+      printProfile(user);
+      return;
+    }
+
+    const result = await listPosts(client, (c, p) => profiles.getProfilePosts(c, username, p), opts, true);
+    if (structuredOutput) { printOutput(result, result.data, POST_TABLE_FIELDS); return; }
+    if (!result.data.length) {
+      console.log(chalk.dim("No posts found."));
+      return;
+    }
+    printReplyList(result.data);
+    printNextCursor(result.next_cursor);
   });
 
 // ─── post ───
 program
   .command("post [text]")
   .description("Create a post (text, image, or video)")
-  .option("--image <url>", "Image URL")
-  .option("--video <url>", "Video URL")
+  .option("--image <url>", "Image URL or local file")
+  .option("--video <url>", "Video URL or local file")
   .option("--reply-to <id>", "Reply to a thread ID")
   .option("--reply-control <mode>", "Reply control: everyone, accounts_you_follow, mentioned_only")
+  .option("--idempotency-key <key>", "Return the earlier result when retried with the same key and payload")
+  .option("--no-preflight", "Skip the media check before creating containers")
   .option("--dry-run", "Preview without posting")
   .action(async (text: string | undefined, opts: {
     image?: string; video?: string; replyTo?: string;
-    replyControl?: string; dryRun?: boolean;
+    replyControl?: string; idempotencyKey?: string; preflight: boolean; dryRun?: boolean;
   }) => {
     if (!text && !opts.image && !opts.video) {
       console.error(chalk.red("✗"), "Provide text, --image, or --video.");
@@ -141,46 +704,602 @@ program
     }
 
     if (opts.dryRun) {
-      const preview = { dry_run: true, text: text ?? null, image: opts.image ?? null, video: opts.video ?? null, reply_to: opts.replyTo ?? null };
-      if (jsonOutput) { printJson(preview); } else { console.log(chalk.yellow("[dry-run]"), JSON.stringify(preview, null, 2)); }
+      const preview = {
+        dry_run: true, text: text ?? null, image: opts.image ?? null, video: opts.video ?? null, reply_to: opts.replyTo ?? null,
+        uploads: localMediaRefs([opts.image, opts.video]),
+      };
+      if (structuredOutput) { printOutput(preview); } else { console.log(chalk.yellow("[dry-run]"), JSON.stringify(preview, null, 2)); }
       return;
     }
 
-    const client = getClient();
+    const client = await getClient();
     await ensureUserId(client);
-    const result = await posts.createPost(client, text ?? "", {
-      image_url: opts.image,
-      video_url: opts.video,
-      reply_to_id: opts.replyTo,
-      reply_control: opts.replyControl as import("./client/types.js").ReplyControl | undefined,
-    });
+    const media = createMediaSession();
+    let result: journal.JournaledResult;
+    try {
+      const payload = {
+        command: "post", text, image: opts.image, video: opts.video, reply_to: opts.replyTo, reply_control: opts.replyControl,
+      };
+      result = await publishJournaled(client, payload, opts.idempotencyKey, async (hooks) => {
+        await preflightMedia([{ ref: opts.image, expected: "IMAGE" }, { ref: opts.video, expected: "VIDEO" }], { enabled: opts.preflight });
+        return posts.createPost(client, text ?? "", {
+          image_url: await media.resolve(opts.image),
+          video_url: await media.resolve(opts.video),
+          reply_to_id: opts.replyTo,
+          reply_control: opts.replyControl as import("./client/types.js").ReplyControl | undefined,
+          onContainerFinished: (c) => media.release(c.media_url),
+          ...hooks,
+        });
+      });
+    } finally {
+      await media.releaseAll();
+    }
+
+    if (structuredOutput) { printOutput(journaledOutput(result, opts.idempotencyKey)); return; }
+    console.log(chalk.green("✓ Posted"), chalk.dim(`(id: ${result.id}${idempotencyNote(result)})`));
+  });
+
+// ─── quote ───
+program
+  .command("quote <post-id> <text>")
+  .description("Quote a post with your own text (optionally with an image or video)")
+  .option("--image <url>", "Image URL or local file")
+  .option("--video <url>", "Video URL or local file")
+  .option("--reply-control <mode>", "Reply control: everyone, accounts_you_follow, mentioned_only")
+  .option("--no-preflight", "Skip the media check before creating containers")
+  .option("--dry-run", "Preview without posting")
+  .action(async (postId: string, text: string, opts: {
+    image?: string; video?: string; replyControl?: string; preflight: boolean; dryRun?: boolean;
+  }) => {
+    if (opts.image && opts.video) {
+      console.error(chalk.red("✗"), "Cannot use both --image and --video.");
+      process.exit(1);
+    }
+
+    if (opts.dryRun) {
+      const preview = {
+        dry_run: true, quote_post_id: postId, text, image: opts.image ?? null, video: opts.video ?? null,
+        uploads: localMediaRefs([opts.image, opts.video]),
+      };
+      if (structuredOutput) { printOutput(preview); } else { console.log(chalk.yellow("[dry-run]"), JSON.stringify(preview, null, 2)); }
+      return;
+    }
+
+    const client = await getClient();
+    await ensureUserId(client);
+    const media = createMediaSession();
+    let result: { id: string };
+    try {
+      await preflightMedia([{ ref: opts.image, expected: "IMAGE" }, { ref: opts.video, expected: "VIDEO" }], { enabled: opts.preflight });
+      result = await posts.createPost(client, text, {
+        image_url: await media.resolve(opts.image),
+        video_url: await media.resolve(opts.video),
+        quote_post_id: postId,
+        reply_control: opts.replyControl as import("./client/types.js").ReplyControl | undefined,
+        onContainerFinished: (c) => media.release(c.media_url),
+        ...journal.journalHooks(getActiveProfileName()),
+      });
+    } finally {
+      await media.releaseAll();
+    }
 
-    if (jsonOutput) { printJson(result); return; }
-    console.log(chalk.green("✓ Posted"), chalk.dim(`(id: ${result.id})`));
+    if (structuredOutput) { printOutput({ ...result, quote_post_id: postId }); return; }
+    console.log(chalk.green("✓ Quoted"), postId, chalk.dim(`(id: ${result.id})`));
+  });
+
+// ─── repost ───
+program
+  .command("repost <post-id>")
+  .description("Repost a post to your profile")
+  .option("--dry-run", "Preview without reposting")
+  .action(async (postId: string, opts: { dryRun?: boolean }) => {
+    if (opts.dryRun) {
+      const preview = { dry_run: true, repost_of: postId };
+      if (structuredOutput) { printOutput(preview); } else { console.log(chalk.yellow("[dry-run]"), JSON.stringify(preview, null, 2)); }
+      return;
+    }
+
+    const client = await getClient();
+    const result = await posts.repost(client, postId);
+    if (structuredOutput) { printOutput({ ...result, repost_of: postId }); return; }
+    console.log(chalk.green("✓ Reposted"), postId, chalk.dim(`(id: ${result.id})`));
   });
 
 // ─── carousel ───
 program
   .command("carousel <text>")
   .description("Create a carousel post (2-10 media items)")
-  .requiredOption("--media <urls...>", "Media URLs (images/videos)")
+  .requiredOption("--media <urls...>", "Media URLs or local files (images/videos)")
   .option("--reply-control <mode>", "Reply control")
+  .option("--idempotency-key <key>", "Return the earlier result when retried with the same key and payload")
+  .option("--no-preflight", "Skip the media check (items are then typed by file extension)")
   .option("--dry-run", "Preview without posting")
-  .action(async (text: string, opts: { media: string[]; replyControl?: string; dryRun?: boolean }) => {
+  .action(async (text: string, opts: {
+    media: string[]; replyControl?: string; idempotencyKey?: string; preflight: boolean; dryRun?: boolean;
+  }) => {
     if (opts.dryRun) {
-      const preview = { dry_run: true, text, media: opts.media, reply_control: opts.replyControl ?? null };
-      if (jsonOutput) { printJson(preview); } else { console.log(chalk.yellow("[dry-run]"), JSON.stringify(preview, null, 2)); }
+      const preview = {
+        dry_run: true, text, media: opts.media, reply_control: opts.replyControl ?? null,
+        uploads: localMediaRefs(opts.media),
+      };
+      if (structuredOutput) { printOutput(preview); } else { console.log(chalk.yellow("[dry-run]"), JSON.stringify(preview, null, 2)); }
+      return;
+    }
+
+    const client = await getClient();
+    await ensureUserId(client);
+    const media = createMediaSession();
+    let result: journal.JournaledResult;
+    try {
+      const payload = { command: "carousel", text, media: opts.media, reply_control: opts.replyControl };
+      result = await publishJournaled(client, payload, opts.idempotencyKey, async (hooks) => {
+        const mediaTypes = await preflightMedia(opts.media.map((ref) => ({ ref })), { enabled: opts.preflight });
+        const urls: string[] = [];
+        for (const ref of opts.media) urls.push(await media.resolve(ref));
+        return posts.createCarouselPost(client, text, urls, {
+          reply_control: opts.replyControl as import("./client/types.js").ReplyControl | undefined,
+          mediaTypes,
+          onContainerFinished: (c) => media.release(c.media_url),
+          ...hooks,
+        });
+      });
+    } finally {
+      await media.releaseAll();
+    }
+
+    if (structuredOutput) { printOutput(journaledOutput(result, opts.idempotencyKey)); return; }
+    console.log(chalk.green("✓ Carousel posted"), chalk.dim(`(id: ${result.id}${idempotencyNote(result)})`));
+  });
+
+// ─── thread ───
+interface ThreadProgress {
+  [key: string]: { file: string; total: number; published: string[]; updated_at: string };
+}
+
+const THREAD_PROGRESS_FILE = "thread-progress.json";
+
+program
+  .command("thread <file>")
+  .description("Publish a multi-post thread from a text/markdown file ('---' separates posts)")
+  .option("--reply-to <id>", "Attach the first post as a reply to this thread ID")
+  .option("--reply-control <mode>", "Reply control for every post")
+  .option("--resume", "Continue a previously interrupted thread from where it stopped")
+  .option("--no-preflight", "Skip the media check before creating containers")
+  .option("--dry-run", "Show segments with character counts without posting")
+  .action(async (file: string, opts: {
+    replyTo?: string; replyControl?: string; resume?: boolean; preflight: boolean; dryRun?: boolean;
+  }) => {
+    const source = readFileSync(file, "utf-8");
+    const segments = posts.splitThread(source);
+    if (!segments.length) {
+      console.error(chalk.red("✗"), `No content found in ${file}.`);
+      process.exit(1);
+    }
+
+    if (opts.dryRun) {
+      const preview = segments.map((s, i) => ({
+        index: i + 1,
+        chars: Array.from(s.text).length,
+        text: s.text,
+        image: s.image_url ?? null,
+        video: s.video_url ?? null,
+      }));
+      if (structuredOutput) { printOutput({ dry_run: true, segments: preview }, preview); return; }
+      for (const s of preview) {
+        const media = s.image ? ` image: ${s.image}` : s.video ? ` video: ${s.video}` : "";
+        console.log(chalk.yellow(`[${s.index}/${preview.length}]`), chalk.dim(`${s.chars}/${posts.MAX_TEXT_LENGTH} chars${media}`));
+        if (s.text) console.log(s.text);
+        console.log();
+      }
+      return;
+    }
+
+    const key = createHash("sha256")
+      .update(`${getActiveProfileName()}\0${opts.replyTo ?? ""}\0${JSON.stringify(segments)}`)
+      .digest("hex");
+    const progress = readState<ThreadProgress>(THREAD_PROGRESS_FILE, {});
+    const published = opts.resume ? progress[key]?.published ?? [] : [];
+    if (!opts.resume && progress[key]?.published.length) {
+      console.error(
+        chalk.red("✗"),
+        `This thread was partially published (${progress[key].published.length}/${segments.length}). ` +
+        "Use --resume to continue it.",
+      );
+      process.exit(1);
+    }
+
+    const client = await getClient();
+    await ensureUserId(client);
+    const baseDir = dirname(resolvePath(file));
+    const media = createMediaSession(baseDir);
+    try {
+      // Only check and upload media for segments that still need publishing
+      const pending = segments.slice(published.length);
+      const mediaTypes = await preflightMedia(pending.map((s) => ({ ref: s.image_url ?? s.video_url })), { baseDir, enabled: opts.preflight });
+      const resolved: ThreadSegment[] = [...segments.slice(0, published.length)];
+      for (const [i, s] of pending.entries()) {
+        // The detected type wins over the one guessed from the markdown
+        const ref = s.image_url ?? s.video_url;
+        const type = mediaTypes[i] ?? (s.video_url ? "VIDEO" : "IMAGE");
+        resolved.push({
+          ...s,
+          image_url: type === "IMAGE" ? await media.resolve(ref) : undefined,
+          video_url: type === "VIDEO" ? await media.resolve(ref) : undefined,
+        });
+      }
+
+      const result = await posts.createThreadChain(client, resolved, {
+        reply_to_id: opts.replyTo,
+        reply_control: opts.replyControl as import("./client/types.js").ReplyControl | undefined,
+        published,
+        onContainerFinished: (c) => media.release(c.media_url),
+        ...journal.journalHooks(getActiveProfileName()),
+        onPublished: (index, id) => {
+          const state = readState<ThreadProgress>(THREAD_PROGRESS_FILE, {});
+          const entry = state[key] ?? { file, total: segments.length, published: [], updated_at: "" };
+          entry.published = [...entry.published.slice(0, index), id];
+          entry.updated_at = new Date().toISOString();
+          state[key] = entry;
+          writeState(THREAD_PROGRESS_FILE, state);
+          if (!structuredOutput) console.log(chalk.green(`✓ [${index + 1}/${segments.length}]`), chalk.dim(`(id: ${id})`));
+        },
+      });
+
+      const state = readState<ThreadProgress>(THREAD_PROGRESS_FILE, {});
+      delete state[key];
+      writeState(THREAD_PROGRESS_FILE, state);
+
+      if (structuredOutput) { printOutput(result, result.ids.map((id, i) => ({ index: i + 1, id }))); return; }
+      console.log(chalk.green("✓ Thread posted"), chalk.dim(`(${result.ids.length} posts, first id: ${result.ids[0]})`));
+    } catch (err) {
+      const done = readState<ThreadProgress>(THREAD_PROGRESS_FILE, {})[key]?.published.length ?? published.length;
+      console.error(
+        chalk.yellow("⚠"),
+        `Stopped at segment ${done + 1}/${segments.length}. Run 'thrd thread ${file} --resume' to continue.`,
+      );
+      throw err;
+    } finally {
+      await media.releaseAll();
+    }
+  });
+
+// ─── media ───
+function describeMedia(check: preflight.MediaCheck): string {
+  const parts = [
+    check.format?.toUpperCase(),
+    check.width && check.height ? `${check.width}x${check.height}` : undefined,
+    check.duration !== undefined ? `${check.duration}s` : undefined,
+    check.size !== undefined ? preflight.formatBytes(check.size) : undefined,
+  ];
+  return parts.filter(Boolean).join(", ");
+}
+
+const mediaCmd = program
+  .command("media")
+  .description("Check images and videos against the Threads media requirements");
+
+mediaCmd
+  .command("check <refs...>")
+  .description("Detect the type, size, dimensions and duration of media URLs or local files and validate them")
+  .option("--type <type>", "Require every item to be an image or a video")
+  .action(async (refs: string[], opts: { type?: string }) => {
+    const expected = opts.type?.toUpperCase();
+    if (expected && expected !== "IMAGE" && expected !== "VIDEO") throw new Error(`Unknown media type '${opts.type}'. Use image or video.`);
+
+    const checks = await Promise.all(refs.map((ref) => preflight.checkMedia(ref, { expected: expected as preflight.MediaKind | undefined })));
+    const failed = checks.some((check) => check.errors.length);
+    if (failed) process.exitCode = 1;
+
+    if (structuredOutput) {
+      const rows = checks.map((check) => ({
+        ...check,
+        status: check.errors.length ? "error" : check.warnings.length ? "warning" : "ok",
+        messages: [...check.errors, ...check.warnings].join("; "),
+      }));
+      printOutput(rows, rows, ["source", "media_type", "format", "size", "width", "height", "duration", "status", "messages"]);
       return;
     }
+    for (const check of checks) {
+      const mark = check.errors.length ? chalk.red("✗") : check.warnings.length ? chalk.yellow("⚠") : chalk.green("✓");
+      const details = [check.media_type, describeMedia(check)].filter(Boolean).join(", ");
+      console.log(mark, check.source, ...(details ? [chalk.dim(`(${details})`)] : []));
+      for (const error of check.errors) console.log(chalk.red(`  ${error}`));
+      for (const warning of check.warnings) console.log(chalk.yellow(`  ${warning}`));
+    }
+  });
+
+// ─── containers ───
+function printContainerRecord(record: journal.ContainerRecord): void {
+  const color = record.state === "published" ? chalk.green
+    : record.state === "failed" ? chalk.red
+    : record.state === "created" ? chalk.yellow
+    : chalk.dim;
+  const expiresAt = journal.containerExpiresAt(record);
+  const hoursLeft = (Date.parse(expiresAt) - Date.now()) / 3_600_000;
+  const expiry = record.state !== "created" && record.state !== "failed" ? ""
+    : hoursLeft > 0 ? `, expires in ${hoursLeft.toFixed(1)}h` : ", expired";
+  const kind = record.is_carousel_item ? `${record.media_type} item` : record.media_type;
+  console.log(chalk.dim(`[${record.id}]`), color(record.state.padEnd(10)), new Date(record.created_at).toLocaleString(), chalk.dim(`(${kind}${expiry})`));
+  if (record.idempotency_key) console.log(chalk.dim(`  idempotency key: ${record.idempotency_key}`));
+  if (record.children?.length) console.log(chalk.dim(`  items: ${record.children.join(", ")}`));
+  if (record.published_id) console.log(chalk.dim(`  published id: ${record.published_id}`));
+  if (record.error) console.log(chalk.red(`  error: ${record.error}`));
+}
+
+const containersCmd = program
+  .command("containers")
+  .description("Inspect the local container journal and finish containers left unpublished");
+
+containersCmd
+  .command("list")
+  .description(`List unpublished containers that have not expired yet (${journal.CONTAINER_TTL_HOURS}h after creation)`)
+  .option("-a, --all", "Include published, expired and carousel item containers")
+  .action((opts: { all?: boolean }) => {
+    const records = journal.listContainers(getActiveProfileName(), { all: opts.all });
+    const rows = records.map((record) => ({ ...record, expires_at: journal.containerExpiresAt(record) }));
+    if (structuredOutput) { printOutput(rows, rows, ["id", "media_type", "state", "created_at", "expires_at", "idempotency_key"]); return; }
+    if (!records.length) { console.log(chalk.dim(opts.all ? "No journaled containers." : "No unpublished containers.")); return; }
+    for (const record of records) printContainerRecord(record);
+  });
+
+containersCmd
+  .command("status <id>")
+  .description("Check a container's status with the API and update the journal")
+  .action(async (id: string) => {
+    const client = await getClient();
+    const { remote, record } = await journal.refreshContainer(client, id);
+    if (structuredOutput) { printOutput({ ...remote, journal: record ?? null }); return; }
+    console.log(chalk.bold(id), remote.status ?? "unknown");
+    if (remote.error_message) console.log(chalk.red(`  error: ${remote.error_message}`));
+    if (record) printContainerRecord(record);
+    else console.log(chalk.dim("  (not in the local journal)"));
+  });
 
-    const client = getClient();
+containersCmd
+  .command("publish <id>")
+  .description("Publish a container created earlier, once it has finished processing")
+  .action(async (id: string) => {
+    const client = await getClient();
     await ensureUserId(client);
-    const result = await posts.createCarouselPost(client, text, opts.media, {
+    const result = await journal.publishContainerRecord(client, id);
+    if (structuredOutput) { printOutput({ ...result, container_id: id }); return; }
+    console.log(chalk.green("✓ Published"), id, chalk.dim(`(id: ${result.id})`));
+  });
+
+// ─── schedule ───
+function printScheduledPost(item: schedule.ScheduledPost): void {
+  const color = item.status === "published" ? chalk.green
+    : item.status === "failed" ? chalk.red
+    : item.status === "pending" ? chalk.yellow
+    : chalk.dim;
+  const when = new Date(item.at).toLocaleString();
+  console.log(chalk.dim(`[${item.id}]`), color(item.status.padEnd(10)), when, chalk.dim(`(${item.profile}, ${item.kind})`));
+  if (item.text) console.log(`  ${item.text.split("\n")[0].slice(0, 80)}`);
+  if (item.published_id) console.log(chalk.dim(`  published id: ${item.published_id}`));
+  if (item.error) console.log(chalk.red(`  error: ${item.error}`));
+}
+
+async function publishScheduledPost(item: schedule.ScheduledPost): Promise<{ id: string }> {
+  const client = await getClient(item.profile);
+  await ensureUserId(client, item.profile);
+  const media = createMediaSession();
+  try {
+    const onContainerFinished = (c: { media_url?: string }) => media.release(c.media_url);
+    const hooks = journal.journalHooks(item.profile);
+    const enabled = !item.skip_preflight;
+    if (item.kind === "carousel") {
+      const mediaTypes = await preflightMedia((item.media ?? []).map((ref) => ({ ref })), { enabled });
+      const urls: string[] = [];
+      for (const ref of item.media ?? []) urls.push(await media.resolve(ref));
+      return await posts.createCarouselPost(client, item.text, urls, {
+        reply_control: item.reply_control, mediaTypes, onContainerFinished, ...hooks,
+      });
+    }
+    await preflightMedia([{ ref: item.image_url, expected: "IMAGE" }, { ref: item.video_url, expected: "VIDEO" }], { enabled });
+    return await posts.createPost(client, item.text, {
+      image_url: await media.resolve(item.image_url),
+      video_url: await media.resolve(item.video_url),
+      reply_to_id: item.reply_to_id,
+      reply_control: item.reply_control,
+      onContainerFinished,
+      ...hooks,
+    });
+  } finally {
+    await media.releaseAll();
+  }
+}
+
+/** Make local media paths absolute so the runner can find them from any directory */
+function absoluteMediaRef<T extends string | undefined>(ref: T): T {
+  return (ref && isLocalMedia(ref) ? resolvePath(ref) : ref) as T;
+}
+
+const scheduleCmd = program
+  .command("schedule")
+  .description("Queue posts for later and publish them with 'schedule run'");
+
+scheduleCmd
+  .command("add [text]")
+  .description("Schedule a post, image/video post, or carousel")
+  .requiredOption("--at <time>", "When to publish (ISO 8601, e.g. 2025-08-15T09:00:00+09:00)")
+  .option("--image <url>", "Image URL")
+  .option("--video <url>", "Video URL")
+  .option("--media <urls...>", "Carousel media URLs (2-10)")
+  .option("--reply-to <id>", "Reply to a thread ID")
+  .option("--reply-control <mode>", "Reply control: everyone, accounts_you_follow, mentioned_only")
+  .option("--no-preflight", "Skip the media check now and when the post is published")
+  .action(async (text: string | undefined, opts: {
+    at: string; image?: string; video?: string; media?: string[]; replyTo?: string; replyControl?: string; preflight: boolean;
+  }) => {
+    // Catch bad media now rather than when the runner picks the post up
+    await preflightMedia(
+      [{ ref: opts.image, expected: "IMAGE" }, { ref: opts.video, expected: "VIDEO" }, ...(opts.media ?? []).map((ref) => ({ ref }))],
+      { enabled: opts.preflight },
+    );
+    const item = await schedule.addScheduledPost({
+      profile: getActiveProfileName(),
+      at: opts.at,
+      text: text ?? "",
+      image_url: absoluteMediaRef(opts.image),
+      video_url: absoluteMediaRef(opts.video),
+      media: opts.media?.map(absoluteMediaRef),
+      reply_to_id: opts.replyTo,
       reply_control: opts.replyControl as import("./client/types.js").ReplyControl | undefined,
+      skip_preflight: opts.preflight ? undefined : true,
     });
+    if (structuredOutput) { printOutput(item); return; }
+    console.log(chalk.green("✓ Scheduled"), chalk.dim(`(id: ${item.id}, at: ${new Date(item.at).toLocaleString()})`));
+  });
+
+scheduleCmd
+  .command("list")
+  .description("List scheduled posts (pending and failed by default)")
+  .option("-a, --all", "Include published and cancelled posts")
+  .action((opts: { all?: boolean }) => {
+    const items = schedule.listScheduledPosts()
+      .filter((i) => opts.all || i.status === "pending" || i.status === "failed" || i.status === "publishing");
+    if (structuredOutput) { printOutput(items); return; }
+    if (!items.length) { console.log(chalk.dim("No scheduled posts.")); return; }
+    for (const item of items) printScheduledPost(item);
+  });
+
+scheduleCmd
+  .command("show <id>")
+  .description("Show a scheduled post")
+  .action((id: string) => {
+    const item = schedule.getScheduledPost(id);
+    if (structuredOutput) { printOutput(item); return; }
+    printScheduledPost(item);
+    if (item.image_url) console.log(chalk.dim(`  image: ${item.image_url}`));
+    if (item.video_url) console.log(chalk.dim(`  video: ${item.video_url}`));
+    for (const url of item.media ?? []) console.log(chalk.dim(`  media: ${url}`));
+    if (item.reply_to_id) console.log(chalk.dim(`  reply to: ${item.reply_to_id}`));
+    if (item.reply_control) console.log(chalk.dim(`  reply control: ${item.reply_control}`));
+  });
+
+scheduleCmd
+  .command("cancel <id>")
+  .description("Cancel a scheduled post")
+  .action(async (id: string) => {
+    const item = await schedule.cancelScheduledPost(id);
+    if (structuredOutput) { printOutput(item); return; }
+    console.log(chalk.green("✓ Cancelled"), id);
+  });
+
+scheduleCmd
+  .command("edit <id>")
+  .description("Edit a pending or failed scheduled post (failed posts are re-queued)")
+  .option("--text <text>", "New text")
+  .option("--at <time>", "New publish time")
+  .option("--image <url>", "Image URL")
+  .option("--video <url>", "Video URL")
+  .option("--media <urls...>", "Carousel media URLs (2-10)")
+  .option("--reply-to <id>", "Reply to a thread ID")
+  .option("--reply-control <mode>", "Reply control")
+  .action(async (id: string, opts: {
+    text?: string; at?: string; image?: string; video?: string; media?: string[]; replyTo?: string; replyControl?: string;
+  }) => {
+    const update: schedule.ScheduledPostUpdate = {};
+    if (opts.text !== undefined) update.text = opts.text;
+    if (opts.at) update.at = opts.at;
+    if (opts.image) Object.assign(update, { image_url: absoluteMediaRef(opts.image), video_url: undefined, media: undefined });
+    if (opts.video) Object.assign(update, { video_url: absoluteMediaRef(opts.video), image_url: undefined, media: undefined });
+    if (opts.media) Object.assign(update, { media: opts.media.map(absoluteMediaRef), image_url: undefined, video_url: undefined });
+    if (opts.replyTo) update.reply_to_id = opts.replyTo;
+    if (opts.replyControl) update.reply_control = opts.replyControl as import("./client/types.js").ReplyControl;
+
+    const item = await schedule.editScheduledPost(id, update);
+    if (structuredOutput) { printOutput(item); return; }
+    console.log(chalk.green("✓ Updated"), id);
+    printScheduledPost(item);
+  });
+
+scheduleCmd
+  .command("run")
+  .description("Publish all due posts (once, for cron, or continuously with --loop)")
+  .option("--loop", "Keep running and check the queue periodically")
+  .option("--interval <seconds>", "Polling interval for --loop", "30")
+  .action(async (opts: { loop?: boolean; interval: string }) => {
+    const writer = createRecordWriter();
+    const onResult = (item: schedule.ScheduledPost) => {
+      if (structuredOutput) { writer.push(item); return; }
+      if (item.status === "published") {
+        console.log(chalk.green("✓ Published"), chalk.dim(`[${item.id}] → ${item.published_id}`));
+      } else {
+        console.log(chalk.red("✗ Failed"), chalk.dim(`[${item.id}]`), item.error);
+      }
+    };
+
+    if (!opts.loop) {
+      const results = await schedule.runDueScheduledPosts(publishScheduledPost, { onResult });
+      if (!structuredOutput && !results.length) console.log(chalk.dim("Nothing due."));
+      if (results.some((r) => r.status === "failed")) process.exitCode = 1;
+      return;
+    }
+
+    const intervalMs = Math.max(1, parseInt(opts.interval, 10)) * 1000;
+    if (!structuredOutput) console.log(chalk.dim(`Watching schedule queue every ${intervalMs / 1000}s. Press Ctrl+C to stop.`));
+    for (;;) {
+      await schedule.runDueScheduledPosts(publishScheduledPost, { onResult });
+      await new Promise<void>((r) => setTimeout(r, intervalMs));
+    }
+  });
+
+// ─── quota ───
+const DEFAULT_POST_QUOTA = 250;
+const DEFAULT_REPLY_QUOTA = 1000;
+
+interface QuotaSummary {
+  used: number;
+  total: number;
+  remaining: number;
+  window_hours: number;
+}
+
+function summarizeQuota(used: number | undefined, config: PublishingLimit["config"], fallback: number): QuotaSummary {
+  const total = config?.quota_total ?? fallback;
+  const usedCount = used ?? 0;
+  return {
+    used: usedCount,
+    total,
+    remaining: Math.max(0, total - usedCount),
+    window_hours: (config?.quota_duration ?? 86_400) / 3600,
+  };
+}
+
+program
+  .command("quota")
+  .description("Show remaining publishing quota (posts and replies per 24h)")
+  .action(async () => {
+    const client = await getClient();
+    await ensureUserId(client);
+    const limit = await posts.getPublishingLimit(client);
+    const result = {
+      posts: summarizeQuota(limit.quota_usage, limit.config, DEFAULT_POST_QUOTA),
+      replies: summarizeQuota(limit.reply_quota_usage, limit.reply_config, DEFAULT_REPLY_QUOTA),
+      api_usage: client.lastUsage ?? null,
+    };
+    if (structuredOutput) {
+      printOutput(result, [{ type: "posts", ...result.posts }, { type: "replies", ...result.replies }]);
+      return;
+    }
 
-    if (jsonOutput) { printJson(result); return; }
-    console.log(chalk.green("✓ Carousel posted"), chalk.dim(`(id: ${result.id})`));
+    const bar = (used: number, total: number) => {
+      const width = 20;
+      const filled = Math.min(width, Math.round((used / Math.max(1, total)) * width));
+      const ratio = used / Math.max(1, total);
+      const color = ratio >= 0.9 ? chalk.red : ratio >= 0.7 ? chalk.yellow : chalk.green;
+      return color("█".repeat(filled)) + chalk.dim("░".repeat(width - filled));
+    };
+    for (const [label, q] of [["Posts", result.posts], ["Replies", result.replies]] as const) {
+      console.log(
+        `${chalk.bold(label.padEnd(8))} ${bar(q.used, q.total)} ${q.used}/${q.total}`,
+        chalk.dim(`(${q.remaining} left in ${q.window_hours}h)`),
+      );
+    }
+    if (result.api_usage) {
+      console.log(chalk.dim(`API usage: ${result.api_usage.max_percent}% of the current rate limit`));
+    }
   });
 
 // ─── delete ───
@@ -188,67 +1307,182 @@ program
   .command("delete <id>")
   .description("Delete a post by ID")
   .action(async (id: string) => {
-    const client = getClient();
+    const client = await getClient();
     const deleted = await posts.deletePost(client, id);
-    if (jsonOutput) { printJson({ id, deleted }); return; }
+    if (structuredOutput) { printOutput({ id, deleted }); return; }
     console.log(deleted ? chalk.green("✓ Deleted") : chalk.red("✗ Failed to delete"), id);
   });
 
 // ─── timeline ───
-program
-  .command("timeline")
+withListOptions(program.command("timeline"), "threads")
   .description("Show your recent threads")
-  .option("-n, --limit <n>", "Number of threads", "10")
-  .action(async (opts: { limit: string }) => {
-    const client = getClient();
+  .action(async (opts: ListOptions) => {
+    const client = await getClient();
     await ensureUserId(client);
-    const result = await posts.getUserThreads(client, { limit: parseInt(opts.limit, 10) });
-    if (jsonOutput) { printJson(result); return; }
+    const result = await listPosts(client, posts.getUserThreads, opts, true);
+    if (structuredOutput) { printOutput(result, result.data, POST_TABLE_FIELDS); return; }
 
-    if (!result.data?.length) {
+    if (!result.data.length) {
       console.log(chalk.dim("No threads found."));
       return;
     }
     for (const t of result.data) {
       const date = t.timestamp ? new Date(t.timestamp).toLocaleString() : "";
-      console.log(chalk.dim(date), chalk.dim(`[${t.id}]`));
+      const kind = t.reposted_post
+        ? chalk.magenta(`↻ repost of ${t.reposted_post.id}`)
+        : t.quoted_post ? chalk.magenta(`❝ quote of ${t.quoted_post.id}`) : t.is_quote_post ? chalk.magenta("❝ quote") : "";
+      console.log(chalk.dim(date), chalk.dim(`[${t.id}]`), ...(kind ? [kind] : []));
       if (t.text) console.log(t.text);
       if (t.permalink) console.log(chalk.dim(t.permalink));
       console.log();
     }
+    printNextCursor(result.next_cursor);
   });
 
 // ─── reply ───
 program
   .command("reply <thread-id> <text>")
   .description("Reply to a thread")
-  .action(async (threadId: string, text: string) => {
-    const client = getClient();
+  .option("--idempotency-key <key>", "Return the earlier result when retried with the same key and payload")
+  .action(async (threadId: string, text: string, opts: { idempotencyKey?: string }) => {
+    const client = await getClient();
     await ensureUserId(client);
-    const result = await posts.createPost(client, text, { reply_to_id: threadId });
-    if (jsonOutput) { printJson(result); return; }
-    console.log(chalk.green("✓ Replied"), chalk.dim(`(id: ${result.id})`));
+    const payload = { command: "reply", text, reply_to: threadId };
+    const result = await publishJournaled(
+      client, payload, opts.idempotencyKey,
+      (hooks) => posts.createPost(client, text, { reply_to_id: threadId, ...hooks }),
+    );
+    if (structuredOutput) { printOutput(journaledOutput(result, opts.idempotencyKey)); return; }
+    console.log(chalk.green("✓ Replied"), chalk.dim(`(id: ${result.id}${idempotencyNote(result)})`));
   });
 
 // ─── replies ───
-program
-  .command("replies <thread-id>")
-  .description("List replies to a thread")
-  .action(async (threadId: string) => {
-    const client = getClient();
-    const result = await replies.getReplies(client, threadId);
-    if (jsonOutput) { printJson(result); return; }
-
-    if (!result.data?.length) {
+function printReplyList(items: ThreadsPost[]): void {
+  for (const r of items) {
+    const date = r.timestamp ? new Date(r.timestamp).toLocaleString() : "";
+    console.log(chalk.dim(date), chalk.bold(`@${r.username ?? "?"}`), chalk.dim(`[${r.id}]`));
+    if (r.text) console.log(r.text);
+    console.log();
+  }
+}
+
+withListOptions(program.command("replies <thread-id>"), "replies")
+  .description("List top-level replies to a thread")
+  .action(async (threadId: string, opts: ListOptions) => {
+    const client = await getClient();
+    const result = await listPosts(client, (c, p) => replies.getReplies(c, threadId, p), opts);
+    if (structuredOutput) { printOutput(result, result.data, POST_TABLE_FIELDS); return; }
+
+    if (!result.data.length) {
       console.log(chalk.dim("No replies."));
       return;
     }
-    for (const r of result.data) {
-      const date = r.timestamp ? new Date(r.timestamp).toLocaleString() : "";
-      console.log(chalk.dim(date), chalk.bold(`@${r.username ?? "?"}`), chalk.dim(`[${r.id}]`));
-      if (r.text) console.log(r.text);
-      console.log();
+    printReplyList(result.data);
+    printNextCursor(result.next_cursor);
+  });
+
+// ─── conversation ───
+withListOptions(program.command("conversation <thread-id>"), "replies")
+  .description("List all replies in a thread's conversation (including nested replies)")
+  .action(async (threadId: string, opts: ListOptions) => {
+    const client = await getClient();
+    const result = await listPosts(client, (c, p) => replies.getConversation(c, threadId, p), opts);
+    if (structuredOutput) { printOutput(result, result.data, POST_TABLE_FIELDS); return; }
+
+    if (!result.data.length) {
+      console.log(chalk.dim("No replies."));
+      return;
+    }
+    printReplyList(result.data);
+    printNextCursor(result.next_cursor);
+  });
+
+// ─── search / mentions ───
+interface WatchOptions {
+  watch?: boolean;
+  interval: string;
+}
+
+/**
+ * Poll `fetchPosts` and print only posts not printed before in this session
+ * (the first poll prints everything), oldest first within each poll.
+ */
+async function watchPosts(fetchPosts: () => Promise<ThreadsPost[]>, interval: string, noun: string): Promise<never> {
+  const seen = new Set<string>();
+  const writer = createRecordWriter(POST_TABLE_FIELDS);
+  const intervalMs = Math.max(1, parseInt(interval, 10)) * 1000;
+  if (!structuredOutput) console.log(chalk.dim(`Watching ${noun} every ${intervalMs / 1000}s. Press Ctrl+C to stop.`));
+  for (;;) {
+    try {
+      const fresh = (await fetchPosts()).filter((p) => !seen.has(p.id)).reverse();
+      for (const post of fresh) {
+        seen.add(post.id);
+        if (structuredOutput) writer.push(post);
+        else printReplyList([post]);
+      }
+    } catch (err) {
+      console.warn(chalk.yellow("⚠"), `Check failed: ${(err as Error).message}`);
+    }
+    await new Promise<void>((r) => setTimeout(r, intervalMs));
+  }
+}
+
+function parseChoice<T extends string>(value: string | undefined, choices: T[], flag: string): T | undefined {
+  if (value === undefined) return undefined;
+  const upper = value.toUpperCase() as T;
+  if (!choices.includes(upper)) {
+    throw new Error(`Invalid ${flag} '${value}'. Use ${choices.slice(0, -1).join(", ")} or ${choices[choices.length - 1]}.`);
+  }
+  return upper;
+}
+
+withListOptions(program.command("search <query>"), "posts")
+  .description("Search public posts by keyword or topic tag")
+  .option("--type <type>", "Result ranking: TOP or RECENT", "TOP")
+  .option("--tag", "Search topic tags instead of post text")
+  .option("--media-type <type>", "Only TEXT, IMAGE or VIDEO posts")
+  .option("--watch", "Keep polling and print only new results")
+  .option("--interval <seconds>", "Polling interval for --watch", "60")
+  .action(async (query: string, opts: ListOptions & WatchOptions & { type: string; tag?: boolean; mediaType?: string }) => {
+    const client = await getClient();
+    const searchOptions = {
+      search_type: parseChoice(opts.type, search.SEARCH_TYPES, "--type"),
+      search_mode: opts.tag ? "TAG" as const : undefined,
+      media_type: parseChoice(opts.mediaType, search.SEARCH_MEDIA_TYPES, "--media-type"),
+    };
+    const fetchResults = () => listPosts(client, (c, p) => search.searchPosts(c, query, { ...p, ...searchOptions }), opts, true);
+
+    if (opts.watch) await watchPosts(async () => (await fetchResults()).data, opts.interval, `search results for "${query}"`);
+    const result = await fetchResults();
+    if (structuredOutput) { printOutput(result, result.data, POST_TABLE_FIELDS); return; }
+
+    if (!result.data.length) {
+      console.log(chalk.dim("No results."));
+      return;
+    }
+    printReplyList(result.data);
+    printNextCursor(result.next_cursor);
+  });
+
+withListOptions(program.command("mentions"), "mentions")
+  .description("List posts that mention you")
+  .option("--watch", "Keep polling and print only new mentions")
+  .option("--interval <seconds>", "Polling interval for --watch", "60")
+  .action(async (opts: ListOptions & WatchOptions) => {
+    const client = await getClient();
+    await ensureUserId(client);
+    const fetchMentions = () => listPosts(client, search.getMentions, opts, true);
+
+    if (opts.watch) await watchPosts(async () => (await fetchMentions()).data, opts.interval, "mentions");
+    const result = await fetchMentions();
+    if (structuredOutput) { printOutput(result, result.data, POST_TABLE_FIELDS); return; }
+
+    if (!result.data.length) {
+      console.log(chalk.dim("No mentions."));
+      return;
     }
+    printReplyList(result.data);
+    printNextCursor(result.next_cursor);
   });
 
 // ─── hide ───
@@ -256,9 +1490,9 @@ program
   .command("hide <reply-id>")
   .description("Hide a reply")
   .action(async (replyId: string) => {
-    const client = getClient();
+    const client = await getClient();
     const ok = await replies.hideReply(client, replyId);
-    if (jsonOutput) { printJson({ reply_id: replyId, hidden: ok }); return; }
+    if (structuredOutput) { printOutput({ reply_id: replyId, hidden: ok }); return; }
     console.log(ok ? chalk.green("✓ Hidden") : chalk.red("✗ Failed"), replyId);
   });
 
@@ -267,43 +1501,741 @@ program
   .command("unhide <reply-id>")
   .description("Unhide a reply")
   .action(async (replyId: string) => {
-    const client = getClient();
+    const client = await getClient();
     const ok = await replies.unhideReply(client, replyId);
-    if (jsonOutput) { printJson({ reply_id: replyId, unhidden: ok }); return; }
+    if (structuredOutput) { printOutput({ reply_id: replyId, unhidden: ok }); return; }
     console.log(ok ? chalk.green("✓ Unhidden") : chalk.red("✗ Failed"), replyId);
   });
 
-// ─── insights ───
+// ─── batch ───
+/** Run one batch operation; post-like operations go through the container journal */
+async function executeBatchOperation(
+  client: ThreadsClient,
+  operation: batch.BatchOperation,
+  media: MediaUploadSession,
+  options: { baseDir: string; preflight: boolean },
+): Promise<{ id?: string }> {
+  const check = { baseDir: options.baseDir, enabled: options.preflight };
+  const onContainerFinished = (c: { media_url?: string }) => media.release(c.media_url);
+  switch (operation.op) {
+    case "post":
+    case "reply": {
+      const payload = {
+        command: operation.op, text: operation.text, image: operation.image, video: operation.video,
+        reply_to: operation.reply_to, reply_control: operation.reply_control,
+      };
+      return publishJournaled(client, payload, operation.idempotency_key, async (hooks) => {
+        await preflightMedia([{ ref: operation.image, expected: "IMAGE" }, { ref: operation.video, expected: "VIDEO" }], check);
+        return posts.createPost(client, operation.text ?? "", {
+          image_url: await media.resolve(operation.image),
+          video_url: await media.resolve(operation.video),
+          reply_to_id: operation.reply_to,
+          reply_control: operation.reply_control,
+          onContainerFinished,
+          ...hooks,
+        });
+      });
+    }
+    case "carousel": {
+      const payload = { command: "carousel", text: operation.text, media: operation.media, reply_control: operation.reply_control };
+      return publishJournaled(client, payload, operation.idempotency_key, async (hooks) => {
+        const mediaTypes = await preflightMedia((operation.media ?? []).map((ref) => ({ ref })), check);
+        const urls: string[] = [];
+        for (const ref of operation.media ?? []) urls.push(await media.resolve(ref));
+        return posts.createCarouselPost(client, operation.text ?? "", urls, {
+          reply_control: operation.reply_control, mediaTypes, onContainerFinished, ...hooks,
+        });
+      });
+    }
+    case "delete":
+      if (!await posts.deletePost(client, operation.id!)) throw new Error(`Could not delete ${operation.id}.`);
+      return { id: operation.id };
+    case "hide":
+      if (!await replies.hideReply(client, operation.id!)) throw new Error(`Could not hide ${operation.id}.`);
+      return { id: operation.id };
+    case "unhide":
+      if (!await replies.unhideReply(client, operation.id!)) throw new Error(`Could not unhide ${operation.id}.`);
+      return { id: operation.id };
+  }
+}
+
+program
+  .command("batch <file>")
+  .description("Run post, carousel, reply, delete, hide and unhide operations from an NDJSON or CSV file")
+  .option("--input-format <format>", "ndjson or csv (default: from the file extension)")
+  .option("-c, --concurrency <n>", "Operations in flight at once", "1")
+  .option("--continue-on-error", "Keep going after a failed operation")
+  .option("--report <file>", "Write per-line results here (NDJSON; default: <file>.report.ndjson)")
+  .option("--resume <report>", "Skip lines that succeeded in this earlier report (appends to it unless --report is given)")
+  .option("--no-preflight", "Skip the media check before each post-like operation")
+  .option("--dry-run", "Validate the file and show the operations without running them")
+  .action(async (file: string, opts: {
+    inputFormat?: string; concurrency: string; continueOnError?: boolean; report?: string; resume?: string;
+    preflight: boolean; dryRun?: boolean;
+  }) => {
+    if (opts.inputFormat && opts.inputFormat !== "ndjson" && opts.inputFormat !== "csv") {
+      throw new Error(`Unknown input format '${opts.inputFormat}'. Use ndjson or csv.`);
+    }
+    const concurrency = parseInt(opts.concurrency, 10);
+    if (!Number.isInteger(concurrency) || concurrency < 1) throw new Error("--concurrency must be a positive integer.");
+
+    const operations = batch.loadBatchFile(file, opts.inputFormat as batch.BatchFormat | undefined);
+    const completed = opts.resume ? batch.completedResults(operations, batch.readBatchReport(opts.resume)) : new Map<number, batch.BatchResult>();
+    const todo = operations.filter((o) => !completed.has(o.line));
+
+    if (opts.dryRun) {
+      const preview = operations.map((o) => ({ ...o, hash: undefined, done: completed.has(o.line) }));
+      if (structuredOutput) { printOutput({ dry_run: true, operations: preview }, preview, ["line", "op", "id", "reply_to", "text", "done"]); return; }
+      for (const o of operations) {
+        const target = o.id ?? (o.reply_to ? `→ ${o.reply_to}` : undefined);
+        const detail = o.text ? o.text.split("\n")[0].slice(0, 60) : o.media ? `${o.media.length} media` : o.image ?? o.video;
+        const parts = [target, detail && chalk.dim(detail), completed.has(o.line) && chalk.dim("(done)")].filter(Boolean);
+        console.log(chalk.yellow(`[line ${o.line}]`), o.op.padEnd(8), ...parts);
+      }
+      console.log(chalk.dim(`${operations.length} operation(s), ${todo.length} to run.`));
+      return;
+    }
+
+    const client = await getClient();
+    await ensureUserId(client);
+
+    // Fail before publishing anything if the batch cannot fit in the 24h window
+    const needed = batch.countPublishes(todo);
+    if (needed.posts || needed.replies) {
+      const limit = await posts.getPublishingLimit(client);
+      const quota = {
+        posts: summarizeQuota(limit.quota_usage, limit.config, DEFAULT_POST_QUOTA),
+        replies: summarizeQuota(limit.reply_quota_usage, limit.reply_config, DEFAULT_REPLY_QUOTA),
+      };
+      for (const kind of ["posts", "replies"] as const) {
+        if (needed[kind] > quota[kind].remaining) {
+          throw new Error(
+            `The batch publishes ${needed[kind]} ${kind} but only ${quota[kind].remaining} are left in the ` +
+            `${quota[kind].window_hours}h publishing window. Split the file or run it later.`,
+          );
+        }
+      }
+    }
+
+    const reportPath = opts.report ?? opts.resume ?? `${file}.report.ndjson`;
+    if (reportPath !== opts.resume) writeFileSync(reportPath, "", { mode: 0o600 });
+
+    const writer = createRecordWriter(["line", "op", "status", "id", "error"]);
+    const baseDir = dirname(resolvePath(file));
+    const media = createMediaSession(baseDir);
+    let results: batch.BatchResult[];
+    try {
+      const execute = (operation: batch.BatchOperation) => executeBatchOperation(client, operation, media, { baseDir, preflight: opts.preflight });
+      results = await batch.runBatch(operations, execute, {
+        concurrency,
+        continueOnError: opts.continueOnError,
+        completed,
+        onResult: (result) => {
+          if (result.status !== "skipped" || reportPath !== opts.resume) batch.appendBatchResult(reportPath, result);
+          if (structuredOutput) { writer.push(result); return; }
+          const label = `[line ${result.line}] ${result.op}`;
+          if (result.status === "ok") console.log(chalk.green("✓"), label, chalk.dim(result.id ? `(id: ${result.id})` : ""));
+          else if (result.status === "failed") console.log(chalk.red("✗"), label, result.error);
+          else console.log(chalk.dim(`- ${label} already done${result.id ? ` (id: ${result.id})` : ""}`));
+        },
+      });
+    } finally {
+      await media.releaseAll();
+    }
+
+    const count = (status: batch.BatchStatus) => results.filter((r) => r.status === status).length;
+    const notRun = operations.length - results.length;
+    if (!structuredOutput) {
+      console.log(
+        chalk.bold(`\n${count("ok")} ok, ${count("failed")} failed, ${count("skipped")} skipped`) +
+        (notRun ? chalk.yellow(`, ${notRun} not run`) : ""),
+        chalk.dim(`(report: ${reportPath})`),
+      );
+      if (count("failed") || notRun) console.log(chalk.dim(`Fix the failed lines and run 'thrd batch ${file} --resume ${reportPath}'.`));
+    }
+    if (count("failed") || notRun) process.exitCode = 1;
+  });
+
+// ─── export ───
 program
+  .command("export <dir>")
+  .description("Archive your posts with their media into a directory (later runs add only new posts)")
+  .option("--replies", "Include direct replies to each post")
+  .option("--conversations", "Include the full conversation of each post")
+  .option("--insights", "Include per-post insights")
+  .option("--no-media", "Do not download media files")
+  .option("--full", "Scan all posts instead of only those since the last export (adds any that are missing)")
+  .option("--archive <format>", "Also write a browsable archive: markdown or html")
+  .action(async (dir: string, opts: {
+    replies?: boolean; conversations?: boolean; insights?: boolean; media: boolean; full?: boolean; archive?: string;
+  }) => {
+    if (opts.archive && !archive.ARCHIVE_FORMATS.includes(opts.archive as archive.ArchiveFormat)) {
+      throw new Error(`Unknown archive format '${opts.archive}'. Use ${archive.ARCHIVE_FORMATS.join(" or ")}.`);
+    }
+
+    const client = await getClient();
+    await ensureUserId(client);
+    const previous = archive.readManifest(dir);
+    if (!structuredOutput) {
+      console.log(chalk.dim(previous?.newest_timestamp && !opts.full
+        ? `Fetching posts since ${previous.newest_timestamp}...`
+        : "Fetching all posts..."));
+    }
+
+    const { manifest, added } = await archive.exportAccount(client, dir, {
+      replies: opts.replies,
+      conversations: opts.conversations,
+      insights: opts.insights,
+      media: opts.media,
+      full: opts.full,
+      format: opts.archive as archive.ArchiveFormat | undefined,
+      onPost: (entry, archived) => {
+        if (structuredOutput) return;
+        const failed = archived.media.filter((m) => m.error).length + Object.keys(archived.errors ?? {}).length;
+        const notes = [entry.media.length ? `${entry.media.length} media` : "", failed ? chalk.yellow(`${failed} problem(s)`) : ""].filter(Boolean);
+        console.log(chalk.green("✓"), chalk.dim(`[${entry.id}]`), entry.title, ...(notes.length ? [chalk.dim(`(${notes.join(", ")})`)] : []));
+      },
+    });
+
+    const result = { dir, added: added.length, total: manifest.posts.length, newest_timestamp: manifest.newest_timestamp ?? null, posts: added };
+    if (structuredOutput) { printOutput(result, added, ["id", "timestamp", "media_type", "title"]); return; }
+    console.log(
+      chalk.green(`✓ Exported ${added.length} new post(s)`),
+      chalk.dim(`(${manifest.posts.length} total in ${dir}${opts.archive ? `, open index.${opts.archive === "html" ? "html" : "md"}` : ""})`),
+    );
+  });
+
+// ─── inbox ───
+/** Default table columns for `inbox` */
+const INBOX_TABLE_FIELDS = ["id", "timestamp", "username", "unread", "answered", "text"];
+
+interface InboxOptions {
+  days: string;
+  posts: string;
+  unread?: boolean;
+  unanswered?: boolean;
+  markRead?: boolean;
+}
+
+function printInboxItems(items: inbox.InboxItem[]): void {
+  for (const item of items) {
+    const date = item.timestamp ? new Date(item.timestamp).toLocaleString() : "";
+    const flags = [item.answered ? "answered" : "", item.hidden ? "hidden" : ""].filter(Boolean).join(", ");
+    const user = `@${item.username ?? "?"}`;
+    const header = [item.unread ? chalk.cyan("●") : " ", chalk.dim(date), item.unread ? chalk.bold(user) : user, chalk.dim(`[${item.id}]`)];
+    if (flags) header.push(chalk.dim(`(${flags})`));
+    console.log(...header);
+    if (item.text) console.log(`  ${item.text}`);
+    if (item.thread_text) console.log(chalk.dim(`  ↳ on: ${item.thread_text.split("\n")[0]}`));
+    console.log();
+  }
+}
+
+const inboxCmd = program
+  .command("inbox")
+  .description("Show replies to your recent threads, newest first (● = unread)")
+  .enablePositionalOptions()
+  .option("--days <n>", "Include threads published in the last n days", "7")
+  .option("--posts <n>", "Check at most n recent threads", "20")
+  .option("--unread", "Only show unread items")
+  .option("--unanswered", "Only show items you have not replied to")
+  .option("--mark-read", "Mark the shown items as read")
+  .action(async (opts: InboxOptions) => {
+    const client = await getClient();
+    await ensureUserId(client);
+    const profile = getActiveProfileName();
+    const items = (await inbox.collectInbox(client, {
+      profile,
+      days: parseInt(opts.days, 10),
+      maxPosts: parseInt(opts.posts, 10),
+    })).filter((item) => (!opts.unread || item.unread) && (!opts.unanswered || !item.answered));
+    if (opts.markRead) await inbox.markRead(profile, items.map((item) => item.id));
+
+    if (structuredOutput) { printOutput(items, items, INBOX_TABLE_FIELDS); return; }
+    if (!items.length) {
+      console.log(chalk.dim("Inbox is empty."));
+      return;
+    }
+    printInboxItems(items);
+    const unread = items.filter((item) => item.unread).length;
+    console.log(chalk.dim(`${items.length} item(s), ${unread} unread${opts.markRead ? " (now marked read)" : ""}`));
+  });
+
+inboxCmd
+  .command("read [ids...]")
+  .description("Mark inbox items as read")
+  .option("--all", "Mark every item currently in the inbox as read")
+  .option("--days <n>", "With --all: threads published in the last n days", "7")
+  .action(async (ids: string[], opts: { all?: boolean; days: string }) => {
+    const profile = getActiveProfileName();
+    if (opts.all) {
+      const client = await getClient();
+      await ensureUserId(client);
+      const items = await inbox.collectInbox(client, { profile, days: parseInt(opts.days, 10) });
+      ids = items.map((item) => item.id);
+    } else if (!ids.length) {
+      throw new Error("Specify item IDs or --all.");
+    }
+    const marked = await inbox.markRead(profile, ids);
+    if (structuredOutput) { printOutput({ marked }); return; }
+    console.log(chalk.green("✓ Marked read"), `${marked.length} item(s)`);
+  });
+
+inboxCmd
+  .command("reply <reply-id> <text>")
+  .description("Reply to an inbox item and mark it read")
+  .action(async (replyId: string, text: string) => {
+    const client = await getClient();
+    await ensureUserId(client);
+    const result = await posts.createPost(client, text, { reply_to_id: replyId, ...journal.journalHooks(getActiveProfileName()) });
+    await inbox.markRead(getActiveProfileName(), [replyId]);
+    if (structuredOutput) { printOutput({ ...result, reply_to_id: replyId }); return; }
+    console.log(chalk.green("✓ Replied"), chalk.dim(`(id: ${result.id})`));
+  });
+
+inboxCmd
+  .command("hide <reply-id>")
+  .description("Hide an inbox item and mark it read")
+  .action(async (replyId: string) => {
+    const client = await getClient();
+    const ok = await replies.hideReply(client, replyId);
+    if (ok) await inbox.markRead(getActiveProfileName(), [replyId]);
+    if (structuredOutput) { printOutput({ reply_id: replyId, hidden: ok }); return; }
+    console.log(ok ? chalk.green("✓ Hidden") : chalk.red("✗ Failed"), replyId);
+  });
+
+inboxCmd
+  .command("open <reply-id>")
+  .description("Open an inbox item in the browser and mark it read")
+  .action(async (replyId: string) => {
+    const client = await getClient();
+    const post = await posts.getThread(client, replyId);
+    if (!post.permalink) throw new Error(`No permalink for ${replyId}.`);
+    await inbox.markRead(getActiveProfileName(), [replyId]);
+    if (structuredOutput) { printOutput({ id: replyId, permalink: post.permalink }); return; }
+    console.log(chalk.dim("Opening"), post.permalink);
+    await open(post.permalink).catch(() => {
+      console.log(chalk.yellow("⚠"), "Could not open a browser; visit the link above.");
+    });
+  });
+
+// ─── moderate ───
+/** Default table columns for moderation actions and the audit log */
+const MODERATION_TABLE_FIELDS = ["run_id", "action", "reply_id", "username", "reasons", "ok", "text"];
+
+interface ModerateOptions {
+  rules?: string;
+  days: string;
+  posts: string;
+  dryRun?: boolean;
+  watch?: boolean;
+  interval: string;
+}
+
+function printModerationAction(entry: moderation.AuditEntry): void {
+  const label = entry.action === "hide" ? "Hidden" : "Unhidden";
+  const status = entry.ok ? chalk.green(`✓ ${label}`) : chalk.red(`✗ ${entry.action} failed`);
+  console.log(status, chalk.bold(`@${entry.username ?? "?"}`), chalk.dim(`[${entry.reply_id}]`), chalk.dim(entry.reasons.join(", ")));
+  if (entry.error) console.log(chalk.red(`  ${entry.error}`));
+}
+
+const moderateCmd = program
+  .command("moderate")
+  .description("Hide replies to your recent threads that match the moderation rules")
+  .enablePositionalOptions()
+  .option("--rules <file>", "Rules file (default: ~/.config/thrd-cli/moderation.json)")
+  .option("--days <n>", "Check threads published in the last n days", "7")
+  .option("--posts <n>", "Check at most n recent threads", "20")
+  .option("--dry-run", "Show matching replies without hiding them")
+  .option("--watch", "Keep running and re-check periodically")
+  .option("--interval <seconds>", "Polling interval for --watch", "300")
+  .action(async (opts: ModerateOptions) => {
+    const rules = moderation.loadRules(opts.rules ? resolvePath(opts.rules) : undefined);
+    const client = await getClient();
+    await ensureUserId(client);
+    const profile = getActiveProfileName();
+    const runOptions = { profile, days: parseInt(opts.days, 10), maxPosts: parseInt(opts.posts, 10) };
+
+    if (opts.dryRun) {
+      const matches = await moderation.findMatches(client, rules, runOptions);
+      const rows = matches.map(({ item, reasons }) => ({ reply_id: item.id, username: item.username, reasons, text: item.text }));
+      if (structuredOutput) { printOutput(rows, rows, ["reply_id", "username", "reasons", "text"]); return; }
+      if (!rows.length) { console.log(chalk.dim("No replies match the rules.")); return; }
+      for (const row of rows) {
+        console.log(chalk.yellow("Would hide"), chalk.bold(`@${row.username ?? "?"}`), chalk.dim(`[${row.reply_id}]`), chalk.dim(row.reasons.join(", ")));
+        if (row.text) console.log(`  ${row.text}`);
+      }
+      return;
+    }
+
+    if (!opts.watch) {
+      const result = await moderation.moderate(client, rules, runOptions);
+      if (structuredOutput) { printOutput(result, result.actions, MODERATION_TABLE_FIELDS); return; }
+      if (!result.actions.length) { console.log(chalk.dim("No replies match the rules.")); return; }
+      result.actions.forEach(printModerationAction);
+      console.log(chalk.dim(`Run ${result.run_id} — undo with: thrd moderate undo ${result.run_id}`));
+      if (result.actions.some((a) => !a.ok)) process.exitCode = 1;
+      return;
+    }
+
+    const writer = createRecordWriter(MODERATION_TABLE_FIELDS);
+    const onAction = (entry: moderation.AuditEntry) => {
+      if (structuredOutput) writer.push(entry);
+      else printModerationAction(entry);
+    };
+    const intervalMs = Math.max(1, parseInt(opts.interval, 10)) * 1000;
+    if (!structuredOutput) console.log(chalk.dim(`Moderating replies every ${intervalMs / 1000}s. Press Ctrl+C to stop.`));
+    for (;;) {
+      try {
+        await moderation.moderate(client, rules, { ...runOptions, onAction });
+      } catch (err) {
+        console.warn(chalk.yellow("⚠"), `Moderation check failed: ${(err as Error).message}`);
+      }
+      await new Promise<void>((r) => setTimeout(r, intervalMs));
+    }
+  });
+
+moderateCmd
+  .command("undo [run-id]")
+  .description("Unhide every reply hidden by a moderation run (default: the latest run)")
+  .action(async (runId: string | undefined) => {
+    const client = await getClient();
+    const result = await moderation.undoRun(client, { profile: getActiveProfileName(), runId });
+    if (structuredOutput) { printOutput(result, result.actions, MODERATION_TABLE_FIELDS); return; }
+    result.actions.forEach(printModerationAction);
+    console.log(chalk.dim(`Undid run ${result.undone}`));
+    if (result.actions.some((a) => !a.ok)) process.exitCode = 1;
+  });
+
+moderateCmd
+  .command("log")
+  .description("Show the moderation audit log, newest first")
+  .option("--run <id>", "Only entries of one run")
+  .option("-n, --limit <n>", "Show at most n entries", "50")
+  .action((opts: { run?: string; limit: string }) => {
+    const entries = moderation.readAuditLog(getActiveProfileName())
+      .filter((e) => !opts.run || e.run_id === opts.run)
+      .reverse()
+      .slice(0, parseInt(opts.limit, 10));
+    if (structuredOutput) { printOutput(entries, entries, MODERATION_TABLE_FIELDS); return; }
+    if (!entries.length) { console.log(chalk.dim("No moderation actions recorded.")); return; }
+    for (const entry of entries) {
+      console.log(chalk.dim(new Date(entry.at).toLocaleString()), chalk.dim(`run ${entry.run_id}`));
+      printModerationAction(entry);
+    }
+  });
+
+// ─── webhooks ───
+interface WebhooksServeOptions {
+  port?: string;
+  host?: string;
+  path?: string;
+  verifyToken?: string;
+  exec?: string[];
+  log?: string[];
+  module?: string[];
+}
+
+const collect = (value: string, previous: string[] = []) => [...previous, value];
+
+const webhooksCmd = program
+  .command("webhooks")
+  .description("Receive Threads webhooks (replies, mentions, ...)");
+
+webhooksCmd
+  .command("serve")
+  .description("Run a local HTTP server that verifies and dispatches webhook events")
+  .option("-p, --port <port>", "Port to listen on (default: webhooks.port or 8080)")
+  .option("--host <host>", "Interface to bind (default: webhooks.host or 127.0.0.1)")
+  .option("--path <path>", "Callback path (default: webhooks.path or /webhooks)")
+  .option("--verify-token <token>", "Subscription verify token (env: THREADS_WEBHOOK_VERIFY_TOKEN)")
+  .option("--exec <command>", "Run a shell command per event with the event JSON on stdin (repeatable)", collect)
+  .option("--log <file>", "Append events to an NDJSON file (repeatable)", collect)
+  .option("--module <file>", "Call the handler exported by a JS module (repeatable)", collect)
+  .action(async (opts: WebhooksServeOptions) => {
+    const config = getWebhooksConfig() ?? {};
+    const verifyToken = opts.verifyToken ?? process.env.THREADS_WEBHOOK_VERIFY_TOKEN ?? config.verify_token;
+    if (!verifyToken) {
+      throw new Error("A verify token is required. Pass --verify-token, set THREADS_WEBHOOK_VERIFY_TOKEN, or add webhooks.verify_token to the config.");
+    }
+    const { app_secret } = loadConfig();
+
+    const handlerConfigs: webhooks.WebhookHandlerConfig[] = [
+      ...(config.handlers ?? []),
+      ...(opts.exec ?? []).map((command) => ({ type: "command" as const, command })),
+      ...(opts.log ?? []).map((path) => ({ type: "ndjson" as const, path })),
+      ...(opts.module ?? []).map((path) => ({ type: "module" as const, path })),
+    ];
+    const handlers = await Promise.all(handlerConfigs.map(webhooks.createWebhookHandler));
+
+    const writer = createRecordWriter(["time", "field", "value.id", "value.username", "value.text"]);
+    const { url } = await webhooks.serveWebhooks({
+      appSecret: app_secret,
+      verifyToken,
+      handlers,
+      port: opts.port ? parseInt(opts.port, 10) : config.port,
+      host: opts.host ?? config.host,
+      path: opts.path ?? config.path,
+      onEvent: (event) => {
+        if (structuredOutput) { writer.push(event); return; }
+        const v = event.value;
+        console.log(chalk.cyan(`← ${event.field}`), chalk.bold(`@${v.username ?? "?"}`), chalk.dim(`[${v.id}]`), v.text ?? "");
+      },
+      onReject: (reason, req) => {
+        console.warn(chalk.yellow("⚠"), new Date().toISOString(), `Rejected ${req.method} ${req.url?.split("?")[0]} from ${req.socket.remoteAddress}: ${reason}`);
+      },
+      onError: (err, event) => {
+        console.warn(chalk.red("✗"), `Handler failed for ${event.field} ${event.value.id}: ${err.message}`);
+      },
+    });
+
+    if (!structuredOutput) {
+      console.log(chalk.green("✓ Listening"), url);
+      console.log(chalk.dim(`${handlers.length} handler(s). Use this URL (via a public tunnel or proxy) as the callback URL in the Meta app dashboard. Press Ctrl+C to stop.`));
+    }
+  });
+
+// ─── insights ───
+/** Flatten insights to one row per data point, breakdown entry or total */
+function insightRows(data: ThreadsInsight[] | undefined): Array<Record<string, unknown>> {
+  return (data ?? []).flatMap((i): Array<Record<string, unknown>> => {
+    const base = { name: i.name, title: i.title, period: i.period };
+    const breakdown = insights.insightBreakdown(i);
+    if (breakdown.length) return breakdown.map((b) => ({ ...base, end_time: null, dimension: b.dimension, value: b.value }));
+    const series = insights.insightSeries(i);
+    if (series.length > 1) return series.map((p) => ({ ...base, end_time: p.end_time, dimension: null, value: p.value }));
+    return [{ ...base, end_time: null, dimension: null, value: insights.insightTotal(i) ?? null }];
+  });
+}
+
+/** Longest breakdown shown in human-readable mode */
+const MAX_BREAKDOWN_ROWS = 15;
+
+function printInsights(data: ThreadsInsight[], chart: string): void {
+  const labelWidth = Math.max(...data.map((i) => (i.title ?? i.name).length));
+  const chartWidth = terminalWidth() - 2;
+  for (const [index, i] of data.entries()) {
+    const label = chalk.bold((i.title ?? i.name).padEnd(labelWidth));
+    const breakdown = insights.insightBreakdown(i);
+    if (breakdown.length) {
+      if (index > 0) console.log();
+      console.log(chalk.bold(i.title ?? i.name));
+      const shown = breakdown.slice(0, MAX_BREAKDOWN_ROWS);
+      const rows = shown.map((b) => ({ label: b.dimension, value: b.value }));
+      for (const line of barChart(rows, { width: chartWidth, percent: true })) {
+        console.log(`  ${line}`);
+      }
+      if (breakdown.length > shown.length) console.log(chalk.dim(`  … ${breakdown.length - shown.length} more`));
+      continue;
+    }
+
+    const total = insights.insightTotal(i);
+    const totalText = total === undefined ? "N/A" : total.toLocaleString();
+    const series = insights.insightSeries(i);
+    if (series.length < 2 || chart === "none") {
+      console.log(`${label}  ${totalText}`);
+      continue;
+    }
+    if (chart === "bars") {
+      console.log(`${label}  ${totalText}`);
+      const rows = series.map((p) => ({ label: p.end_time.slice(0, 10), value: p.value }));
+      for (const line of barChart(rows, { width: chartWidth })) console.log(`  ${chalk.dim(line)}`);
+      continue;
+    }
+    const first = series[0].end_time.slice(0, 10);
+    const last = series[series.length - 1].end_time.slice(0, 10);
+    console.log(`${label}  ${totalText.padEnd(10)} ${chalk.cyan(sparkline(series.map((p) => p.value)))} ${chalk.dim(`${first} → ${last}`)}`);
+  }
+}
+
+const insightsCmd = program
   .command("insights [thread-id]")
   .description("Show insights (media-level if thread-id given, otherwise account-level)")
-  .action(async (threadId?: string) => {
-    const client = getClient();
+  // Keep --days etc. of `insights` from swallowing the options of `insights track`
+  .enablePositionalOptions()
+  .option("--since <date>", "Start of the range (ISO 8601 or unix seconds; account-level only)")
+  .option("--until <date>", "End of the range (ISO 8601 or unix seconds; account-level only)")
+  .option("--days <n>", "Last n days (account-level only)")
+  .option("--metric <list>", "Comma-separated metrics to fetch")
+  .option("--breakdown <dimension>", "Follower demographics by country, city, age or gender")
+  .option("--chart <style>", "Daily series style: sparkline, bars or none", "sparkline")
+  .action(async (threadId: string | undefined, opts: {
+    since?: string; until?: string; days?: string; metric?: string; breakdown?: string; chart: string;
+  }) => {
+    const client = await getClient();
+    const metrics = opts.metric?.split(",").map((m) => m.trim()).filter(Boolean);
+    if (!["sparkline", "bars", "none"].includes(opts.chart)) {
+      throw new Error(`Invalid --chart '${opts.chart}'. Use sparkline, bars or none.`);
+    }
 
+    let result: { data: ThreadsInsight[] };
     if (threadId) {
-      const result = await insights.getMediaInsights(client, threadId);
-      if (jsonOutput) { printJson(result); return; }
-      if (!result.data?.length) { console.log(chalk.dim("No insights.")); return; }
-      for (const i of result.data) {
-        const value = i.values?.[0]?.value ?? "N/A";
-        console.log(`${chalk.bold(i.title ?? i.name)}: ${value}`);
+      if (opts.since || opts.until || opts.days || opts.breakdown) {
+        throw new Error("--since, --until, --days and --breakdown only apply to account-level insights.");
       }
+      result = await insights.getMediaInsights(client, threadId, { metrics });
     } else {
-      const result = await insights.getUserInsights(client);
-      if (jsonOutput) { printJson(result); return; }
-      if (!result.data?.length) { console.log(chalk.dim("No insights.")); return; }
-      for (const i of result.data) {
-        const value = i.values?.[0]?.value ?? "N/A";
-        console.log(`${chalk.bold(i.title ?? i.name)}: ${value}`);
+      await ensureUserId(client);
+      const breakdown = opts.breakdown as DemographicBreakdown | undefined;
+      if (breakdown && !insights.DEMOGRAPHIC_BREAKDOWNS.includes(breakdown)) {
+        throw new Error(`Invalid --breakdown '${opts.breakdown}'. Use ${insights.DEMOGRAPHIC_BREAKDOWNS.join(", ")}.`);
+      }
+      if (opts.days && opts.since) throw new Error("Use either --days or --since, not both.");
+      const until = parseDateOption(opts.until, "--until");
+      let since = parseDateOption(opts.since, "--since");
+      if (opts.days) {
+        const days = parseInt(opts.days, 10);
+        if (!(days > 0)) throw new Error("--days must be a positive number.");
+        since = (until ?? Math.floor(Date.now() / 1000)) - days * 86_400;
       }
+      result = await insights.getUserInsights(client, {
+        since,
+        until,
+        // --breakdown alone shows just the demographics
+        metrics: metrics ?? (breakdown ? ["follower_demographics"] : undefined),
+        breakdown,
+      });
+    }
+
+    if (structuredOutput) { printOutput(result, insightRows(result.data)); return; }
+    if (!result.data?.length) { console.log(chalk.dim("No insights.")); return; }
+    printInsights(result.data, opts.chart);
+  });
+
+insightsCmd
+  .command("track")
+  .description("Snapshot post and account insights into the local history (run from cron)")
+  .option("--days <n>", "Track posts published in the last n days", "7")
+  .option("--max <n>", "Track at most n recent posts", "50")
+  .option("--no-account", "Skip the account-level snapshot")
+  .action(async (opts: { days: string; max: string; account: boolean }) => {
+    const client = await getClient();
+    await ensureUserId(client);
+    const profile = getActiveProfileName();
+    const errors: Array<{ post_id: string; error: string }> = [];
+
+    const snapshots = await analytics.takeSnapshots(client, {
+      profile,
+      days: parseInt(opts.days, 10),
+      max: parseInt(opts.max, 10),
+      account: opts.account,
+      onError: (postId, err) => {
+        errors.push({ post_id: postId, error: err.message });
+        if (!structuredOutput) console.warn(chalk.yellow("⚠"), `Skipped ${postId}: ${err.message}`);
+      },
+    });
+    await analytics.recordSnapshots(snapshots);
+
+    const result = {
+      profile,
+      taken_at: snapshots[0]?.taken_at ?? new Date().toISOString(),
+      posts: snapshots.filter((s) => s.kind === "post").length,
+      account: snapshots.some((s) => s.kind === "account"),
+      errors,
+    };
+    if (structuredOutput) { printOutput(result); return; }
+    console.log(
+      chalk.green("✓ Tracked"),
+      `${result.posts} post(s)${result.account ? " and account totals" : ""}`,
+      chalk.dim(`(profile: ${profile})`),
+    );
+  });
+
+// ─── report ───
+/** Default table columns for `report` */
+const REPORT_TABLE_FIELDS = ["post_id", "posted_at", "views", "views_delta", "engagement_rate", "text"];
+
+function formatRate(rate: number): string {
+  return `${(rate * 100).toFixed(2)}%`;
+}
+
+function printGrowthCurve(curve: analytics.GrowthCurve): void {
+  console.log(chalk.bold(`Post ${curve.post_id}`), chalk.dim(curve.posted_at ? `posted ${new Date(curve.posted_at).toLocaleString()}` : ""));
+  if (curve.text) console.log(chalk.dim(curve.text.split("\n")[0]));
+  console.log();
+  for (const m of curve.milestones) {
+    console.log(`${`${m.hours}h`.padStart(4)}  ${m.views === null ? chalk.dim("—") : m.views.toLocaleString()}`);
+  }
+  const views = curve.points.map((p) => p.views);
+  if (views.length > 1) {
+    console.log();
+    console.log(`views ${chalk.cyan(sparkline(views))}`, chalk.dim(`${curve.points.length} snapshots over ${curve.points[curve.points.length - 1].hours_since_post}h`));
+  }
+}
+
+function printReport(report: analytics.AnalyticsReport): void {
+  if (report.account) {
+    const a = report.account;
+    const delta = a.followers_delta === null ? "" : ` (${a.followers_delta >= 0 ? "+" : ""}${a.followers_delta.toLocaleString()})`;
+    console.log(chalk.bold("Followers"), `${a.followers_end?.toLocaleString() ?? "N/A"}${delta}`, chalk.dim(`over ${a.snapshots} snapshots`));
+    console.log();
+  }
+
+  console.log(chalk.bold("Top posts by engagement rate"));
+  if (!report.top_posts.length) console.log(chalk.dim("  No posts with views yet."));
+  for (const p of report.top_posts) {
+    const text = (p.text ?? "").replace(/\s+/g, " ");
+    console.log(
+      `  ${formatRate(p.engagement_rate).padStart(7)}  ${p.views.toLocaleString().padStart(8)} views`,
+      chalk.green(`+${p.views_delta.toLocaleString()}`),
+      chalk.dim(`[${p.post_id}]`),
+      text.length > 40 ? `${text.slice(0, 39)}…` : text,
+    );
+  }
+
+  const chartWidth = terminalWidth() - 2;
+  for (const [title, slots] of [["Best posting hours", report.best_hours], ["Best posting days", report.best_days]] as const) {
+    if (!slots.length) continue;
+    console.log();
+    console.log(chalk.bold(title), chalk.dim("(average views per post)"));
+    const rows = slots.map((s) => ({ label: `${s.slot} (${s.posts})`, value: s.avg_views }));
+    for (const line of barChart(rows, { width: chartWidth })) console.log(`  ${line}`);
+  }
+}
+
+program
+  .command("report")
+  .description("Growth report from the history recorded by 'thrd insights track'")
+  .option("--days <n>", "Only use snapshots from the last n days", "30")
+  .option("--post <id>", "Show the growth curve of a single post")
+  .option("--top <n>", "Number of top posts to show", "10")
+  .option("--min-views <n>", "Ignore posts with fewer views when ranking", "1")
+  .action((opts: { days: string; post?: string; top: string; minViews: string }) => {
+    const since = analytics.reportSince(parseInt(opts.days, 10));
+    const snapshots = analytics.readSnapshots({ profile: getActiveProfileName(), since });
+    if (!snapshots.length) {
+      throw new Error("No insight history for this profile yet. Run 'thrd insights track' (e.g. hourly from cron) first.");
     }
+
+    if (opts.post) {
+      const curve = analytics.growthCurve(snapshots, opts.post);
+      if (!curve) throw new Error(`No snapshots for post ${opts.post} in the last ${opts.days} days.`);
+      if (structuredOutput) { printOutput(curve, curve.points); return; }
+      printGrowthCurve(curve);
+      return;
+    }
+
+    const report = analytics.buildReport(snapshots, {
+      since,
+      top: parseInt(opts.top, 10),
+      minViews: parseInt(opts.minViews, 10),
+    });
+    if (structuredOutput) { printOutput(report, report.top_posts, REPORT_TABLE_FIELDS); return; }
+    printReport(report);
   });
 
 program.parseAsync().catch((err: Error) => {
-  if (jsonOutput) {
-    printJson({ error: err.message });
-    process.exit(1);
+  const exitCode = exitCodeFor(err);
+  if (structuredOutput && (outputOptions.format === "json" || outputOptions.format === "ndjson")) {
+    const error = err instanceof ThreadsApiError ? err.toJSON() : { name: err.name, message: err.message };
+    const body = { error: { ...error, exit_code: exitCode } };
+    if (outputOptions.format === "json") printJson(body); else console.log(JSON.stringify(body));
+    process.exit(exitCode);
   }
   console.error(chalk.red("✗"), err.message);
-  process.exit(1);
+  if (err instanceof ThreadsApiError) {
+    if (err.hint) console.error(chalk.yellow("→"), err.hint);
+    if (err.fbtrace_id) console.error(chalk.dim(`fbtrace_id: ${err.fbtrace_id}`));
+  }
+  process.exit(exitCode);
 });
@@ -0,0 +1,184 @@
+/** Error payload returned by the Graph API (`{ error: {...} }`) */
+export interface ApiErrorBody {
+  message?: string;
+  type?: string;
+  code?: number;
+  error_subcode?: number;
+  fbtrace_id?: string;
+  error_user_title?: string;
+  error_user_msg?: string;
+}
+
+export interface ApiErrorDetails {
+  status: number;
+  code?: number;
+  error_subcode?: number;
+  type?: string;
+  fbtrace_id?: string;
+  retryable?: boolean;
+  /** Scope that is likely required for the failed request */
+  required_scope?: string;
+  /** Actionable advice for the user */
+  hint?: string;
+}
+
+/** Base class for errors returned by the Threads API */
+export class ThreadsApiError extends Error {
+  public readonly status: number;
+  public readonly code: number | undefined;
+  public readonly error_subcode: number | undefined;
+  public readonly type: string | undefined;
+  public readonly fbtrace_id: string | undefined;
+  public readonly retryable: boolean;
+  public readonly required_scope: string | undefined;
+  public readonly hint: string | undefined;
+
+  constructor(message: string, details: ApiErrorDetails) {
+    super(message);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.code = details.code;
+    this.error_subcode = details.error_subcode;
+    this.type = details.type;
+    this.fbtrace_id = details.fbtrace_id;
+    this.retryable = details.retryable ?? false;
+    this.required_scope = details.required_scope;
+    this.hint = details.hint;
+  }
+
+  /** Plain object for structured (JSON) output */
+  public toJSON(): Record<string, unknown> {
+    return {
+      name: this.name,
+      message: this.message,
+      status: this.status,
+      code: this.code ?? null,
+      error_subcode: this.error_subcode ?? null,
+      type: this.type ?? null,
+      fbtrace_id: this.fbtrace_id ?? null,
+      retryable: this.retryable,
+      required_scope: this.required_scope ?? null,
+      hint: this.hint ?? null,
+    };
+  }
+}
+
+/** Invalid or revoked access token (code 190/102, HTTP 401) */
+export class ThreadsAuthError extends ThreadsApiError {}
+
+/** Access token has expired (code 190, subcode 463) */
+export class ThreadsTokenExpiredError extends ThreadsAuthError {}
+
+/** Missing permission or scope (code 10, 200-299, HTTP 403) */
+export class ThreadsPermissionError extends ThreadsApiError {}
+
+/** Rate or publishing limit reached (HTTP 429, codes 4/17/32/613) */
+export class ThreadsRateLimitError extends ThreadsApiError {}
+
+/** Invalid parameter or request (code 100, HTTP 400) */
+export class ThreadsValidationError extends ThreadsApiError {}
+
+/** Object does not exist or is not accessible (HTTP 404, code 100/subcode 33) */
+export class ThreadsNotFoundError extends ThreadsApiError {}
+
+const RATE_LIMIT_CODES = new Set([4, 17, 32, 613]);
+const AUTH_CODES = new Set([102, 190]);
+const EXPIRED_SUBCODES = new Set([463]);
+const TRANSIENT_CODES = new Set([1, 2]);
+const NOT_FOUND_SUBCODE = 33;
+/** Scopes `thrd auth` only requests when asked (kept in sync with OPTIONAL_SCOPES in auth.ts) */
+const OPTIONAL_SCOPES = new Set(["threads_keyword_search", "threads_manage_mentions", "threads_profile_discovery"]);
+
+/** Best guess at the scope an endpoint needs, used for permission hints */
+export function requiredScopeFor(method: string, path: string): string | undefined {
+  if (/(^|\/)manage_reply$/.test(path)) return "threads_manage_replies";
+  if (/(^|\/)(replies|conversation)$/.test(path)) return "threads_read_replies";
+  if (/(^|\/)(insights|threads_insights)$/.test(path)) return "threads_manage_insights";
+  if (path === "keyword_search") return "threads_keyword_search";
+  if (/(^|\/)mentions$/.test(path)) return "threads_manage_mentions";
+  if (path === "profile_lookup" || path === "profile_posts") return "threads_profile_discovery";
+  if (method === "DELETE") return "threads_delete";
+  if (method === "POST" && /(^|\/)(threads|threads_publish)$/.test(path)) return "threads_content_publish";
+  return undefined;
+}
+
+/**
+ * Build the most specific ThreadsApiError for an HTTP status and response body.
+ * `context` prefixes the message; `method`/`path` are used to suggest a scope.
+ */
+export function createApiError(
+  status: number,
+  body: string,
+  options?: { context?: string; method?: string; path?: string },
+): ThreadsApiError {
+  let err: ApiErrorBody | undefined;
+  try {
+    err = (JSON.parse(body) as { error?: ApiErrorBody }).error;
+  } catch { /* not JSON */ }
+
+  const context = options?.context ?? `Threads API error ${status}`;
+  const detail = err
+    ? `[${err.type ?? "Unknown"}] ${err.error_user_msg ?? err.message ?? "Unknown error"} (code: ${err.code ?? "?"})`
+    : body.slice(0, 200);
+  const message = `${context}: ${detail}`;
+
+  const code = err?.code;
+  const subcode = err?.error_subcode;
+  const base: ApiErrorDetails = {
+    status,
+    code,
+    error_subcode: subcode,
+    type: err?.type,
+    fbtrace_id: err?.fbtrace_id,
+  };
+
+  if (status === 429 || (code !== undefined && (RATE_LIMIT_CODES.has(code) || (code >= 80001 && code <= 80009)))) {
+    return new ThreadsRateLimitError(message, {
+      ...base,
+      retryable: true,
+      hint: "Rate limit reached. Wait and retry, or run 'thrd quota' to check your remaining budget.",
+    });
+  }
+
+  if (status === 401 || (code !== undefined && AUTH_CODES.has(code))) {
+    if (subcode !== undefined && EXPIRED_SUBCODES.has(subcode)) {
+      return new ThreadsTokenExpiredError(message, {
+        ...base,
+        hint: "Access token has expired. Run 'thrd auth' to sign in again.",
+      });
+    }
+    return new ThreadsAuthError(message, {
+      ...base,
+      hint: "Access token is invalid or revoked. Run 'thrd auth' to sign in again.",
+    });
+  }
+
+  if (status === 403 || code === 10 || (code !== undefined && code >= 200 && code <= 299)) {
+    const scope = options?.method && options.path ? requiredScopeFor(options.method, options.path) : undefined;
+    return new ThreadsPermissionError(message, {
+      ...base,
+      required_scope: scope,
+      hint: scope && OPTIONAL_SCOPES.has(scope)
+        ? `Missing permission '${scope}'. Enable it for your app and re-run 'thrd auth --scopes default,${scope}'.`
+        : scope
+        ? `Missing permission '${scope}'. Enable it for your app and re-run 'thrd auth'.`
+        : "Missing permission. Check the app's enabled permissions and re-run 'thrd auth'.",
+    });
+  }
+
+  if (status === 404 || (code === 100 && subcode === NOT_FOUND_SUBCODE)) {
+    return new ThreadsNotFoundError(message, {
+      ...base,
+      hint: "The object does not exist, was deleted, or is not accessible with this token.",
+    });
+  }
+
+  if (status === 400 || code === 100) {
+    return new ThreadsValidationError(message, base);
+  }
+
+  return new ThreadsApiError(message, {
+    ...base,
+    retryable: status >= 500 || (code !== undefined && TRANSIENT_CODES.has(code)),
+  });
+}
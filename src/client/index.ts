@@ -1,5 +1,7 @@
 import type { ThreadsConfig } from "../config.js";
-import type { RequestMethod, ThreadsClientOptions } from "./types.js";
+import type { RequestMethod, ThreadsClientOptions, RateLimitUsage } from "./types.js";
+import { createApiError, ThreadsRateLimitError, type ThreadsApiError } from "./errors.js";
+import { parseUsageHeaders, throttleDelayMs, backoffDelayMs } from "./ratelimit.js";
 
 export type {
   RequestMethod,
@@ -7,22 +9,48 @@ export type {
   ContainerStatus,
   ReplyControl,
   ThreadsPost,
+  ThreadSegment,
   ThreadsUser,
+  PublicProfile,
   ThreadsInsight,
+  InsightValue,
+  InsightBreakdown,
+  InsightTotalValue,
+  DemographicBreakdown,
   MediaContainer,
   ThreadsApiResponse,
   PaginatedResult,
   ThreadsClientOptions,
+  AppUsage,
+  BusinessUseCaseUsage,
+  RateLimitUsage,
+  PublishingLimit,
 } from "./types.js";
 
-const BASE_URL = "https://graph.threads.net/v1.0";
-const MAX_RATE_LIMIT_RETRIES = 2;
-const DEFAULT_RATE_LIMIT_WAIT_MS = 60_000;
+export {
+  ThreadsApiError,
+  ThreadsAuthError,
+  ThreadsTokenExpiredError,
+  ThreadsPermissionError,
+  ThreadsRateLimitError,
+  ThreadsValidationError,
+  ThreadsNotFoundError,
+} from "./errors.js";
+
+export { createRecordingFetch, createReplayFetch, redactSecrets } from "./transport.js";
+export type { FetchLike, RecordedExchange, FixtureFile } from "./transport.js";
+
+const DEFAULT_ORIGIN = "https://graph.threads.net";
+const DEFAULT_API_VERSION = "v1.0";
+const BASE_URL = `${DEFAULT_ORIGIN}/${DEFAULT_API_VERSION}`;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_THROTTLE_THRESHOLD = 90;
 
 export class ThreadsClient {
   private accessToken: string;
   public userId: string | undefined;
   private options: ThreadsClientOptions;
+  private usage: RateLimitUsage | undefined;
 
   constructor(config: ThreadsConfig, options: ThreadsClientOptions = {}) {
     this.accessToken = config.access_token;
@@ -30,30 +58,83 @@ export class ThreadsClient {
     this.options = options;
   }
 
-  private async parseResponse<T>(res: Response): Promise<T> {
-    const text = await res.text();
-    let data: unknown;
+  /** Base URL requests are sent to, e.g. https://graph.threads.net/v1.0 */
+  public get baseUrl(): string {
+    const origin = (this.options.baseUrl ?? DEFAULT_ORIGIN).replace(/\/+$/, "");
+    const version = this.options.apiVersion ?? DEFAULT_API_VERSION;
+    return version ? `${origin}/${version}` : origin;
+  }
+
+  /** Send a request through the configured fetch with default headers, timeout and abort signal */
+  private async send(url: string, init: RequestInit): Promise<Response> {
+    const fetchImpl = this.options.fetch ?? fetch;
+    const controller = new AbortController();
+    const external = this.options.signal;
+    const onAbort = () => controller.abort(external?.reason);
+    if (external?.aborted) onAbort();
+    external?.addEventListener("abort", onAbort, { once: true });
+
+    const timeoutMs = this.options.timeoutMs;
+    let timedOut = false;
+    const timer = timeoutMs
+      ? setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs)
+      : undefined;
+
     try {
-      data = JSON.parse(text);
-    } catch {
-      if (!res.ok) {
-        throw new Error(`Threads API error ${res.status}: ${text.slice(0, 200)}`);
-      }
-      return {} as T;
+      return await fetchImpl(url, {
+        ...init,
+        headers: { ...this.options.headers, ...(init.headers as Record<string, string> | undefined) },
+        signal: controller.signal,
+      });
+    } catch (err) {
+      if (timedOut) throw new Error(`Request timed out after ${timeoutMs}ms: ${init.method} ${url.split("?")[0]}`);
+      throw err;
+    } finally {
+      if (timer) clearTimeout(timer);
+      external?.removeEventListener("abort", onAbort);
     }
+  }
+
+  /** Most recent usage snapshot reported by the API, if any */
+  public get lastUsage(): RateLimitUsage | undefined {
+    return this.usage;
+  }
+
+  private recordUsage(res: Response): void {
+    const usage = parseUsageHeaders(res.headers);
+    if (!usage) return;
+    this.usage = usage;
+    this.options.onUsage?.(usage);
+  }
 
+  /** Pause before a request when the last snapshot shows usage near the limit */
+  private async throttle(): Promise<void> {
+    const waitMs = throttleDelayMs(this.usage, this.options.throttleThreshold ?? DEFAULT_THROTTLE_THRESHOLD);
+    if (waitMs <= 0) return;
+    this.options.onRateLimit?.(
+      `API usage at ${this.usage?.max_percent}%. Pausing ${(waitMs / 1000).toFixed(1)}s to stay under the limit.`
+    );
+    await new Promise<void>((resolve) => setTimeout(resolve, waitMs));
+    // The snapshot is stale after waiting; the next response will refresh it
+    this.usage = undefined;
+  }
+
+  private async parseResponse<T>(res: Response, method: RequestMethod, path: string): Promise<T> {
+    const text = await res.text();
     if (!res.ok) {
-      const err = (data as { error?: { message?: string; type?: string; code?: number } }).error;
-      const detail = err
-        ? `[${err.type ?? "Unknown"}] ${err.message ?? "Unknown error"} (code: ${err.code ?? "?"})`
-        : JSON.stringify(data);
-      throw new Error(`Threads API error ${res.status}: ${detail}`);
+      throw createApiError(res.status, text, { method, path });
     }
 
-    return data as T;
+    try {
+      return JSON.parse(text) as T;
+    } catch {
+      return {} as T;
+    }
   }
 
   public async request<T>(method: RequestMethod, path: string, body?: Record<string, unknown>, retryCount = 0): Promise<T> {
+    await this.throttle();
+
     let url: string;
     if (method === "GET" || method === "DELETE") {
       const params = new URLSearchParams();
@@ -63,7 +144,7 @@ export class ThreadsClient {
           if (v !== undefined && v !== null) params.set(k, String(v));
         }
       }
-      url = `${BASE_URL}/${path}?${params.toString()}`;
+      url = `${this.baseUrl}/${path}?${params.toString()}`;
     } else {
       const params = new URLSearchParams();
       params.set("access_token", this.accessToken);
@@ -72,37 +153,57 @@ export class ThreadsClient {
           if (v !== undefined && v !== null) params.set(k, String(v));
         }
       }
-      url = `${BASE_URL}/${path}`;
+      url = `${this.baseUrl}/${path}`;
       // Threads API uses form-encoded POST, not JSON body
-      const res = await fetch(url, {
+      const res = await this.send(url, {
         method,
         headers: { "Content-Type": "application/x-www-form-urlencoded" },
         body: params.toString(),
       });
-
-      if (res.status === 429 && retryCount < MAX_RATE_LIMIT_RETRIES) {
-        return this.handleRateLimit<T>(method, path, body, retryCount);
-      }
-
-      return this.parseResponse<T>(res);
+      return this.handleResponse<T>(res, method, path, body, retryCount);
     }
 
-    const res = await fetch(url, { method });
+    const res = await this.send(url, { method });
+    return this.handleResponse<T>(res, method, path, body, retryCount);
+  }
 
-    if (res.status === 429 && retryCount < MAX_RATE_LIMIT_RETRIES) {
-      return this.handleRateLimit<T>(method, path, body, retryCount);
+  private async handleResponse<T>(
+    res: Response,
+    method: RequestMethod,
+    path: string,
+    body: Record<string, unknown> | undefined,
+    retryCount: number,
+  ): Promise<T> {
+    this.recordUsage(res);
+    try {
+      return await this.parseResponse<T>(res, method, path);
+    } catch (err) {
+      const apiErr = err as ThreadsApiError;
+      const rateLimited = apiErr instanceof ThreadsRateLimitError;
+      // A rate-limited request was rejected before processing, so any method may be retried.
+      // Transient 5xx errors are only retried for GET/DELETE to avoid double-publishing.
+      const retryable = rateLimited || (apiErr.retryable && (method === "GET" || method === "DELETE"));
+      if (!retryable || retryCount >= (this.options.maxRetries ?? DEFAULT_MAX_RETRIES)) throw err;
+      return this.handleRetry<T>(method, path, body, retryCount, rateLimited);
     }
-
-    return this.parseResponse<T>(res);
   }
 
-  private async handleRateLimit<T>(method: RequestMethod, path: string, body: Record<string, unknown> | undefined, retryCount: number): Promise<T> {
-    const waitMs = DEFAULT_RATE_LIMIT_WAIT_MS;
-    const waitSeconds = (waitMs / 1000).toFixed(0);
+  private async handleRetry<T>(
+    method: RequestMethod,
+    path: string,
+    body: Record<string, unknown> | undefined,
+    retryCount: number,
+    rateLimited: boolean,
+  ): Promise<T> {
+    const maxRetries = this.options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    const waitMs = backoffDelayMs(retryCount, this.usage?.retry_after_ms ?? this.usage?.regain_access_ms);
+    const reason = rateLimited ? "Rate limited" : "Transient server error";
     this.options.onRateLimit?.(
-      `Rate limited. Waiting ${waitSeconds}s before retry ${retryCount + 1}/${MAX_RATE_LIMIT_RETRIES}.`
+      `${reason}. Waiting ${(waitMs / 1000).toFixed(1)}s before retry ${retryCount + 1}/${maxRetries}.`
     );
     await new Promise<void>((resolve) => setTimeout(resolve, waitMs));
+    // Retry timing is decided here; don't let the throttle wait a second time
+    this.usage = undefined;
     return this.request<T>(method, path, body, retryCount + 1);
   }
 }
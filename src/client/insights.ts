@@ -1,29 +1,94 @@
 import type { ThreadsClient } from "./index.js";
-import type { ThreadsInsight } from "./types.js";
+import type { DemographicBreakdown, ThreadsInsight } from "./types.js";
+
+/** Metrics available on a single post */
+export const MEDIA_METRICS = ["views", "likes", "replies", "reposts", "quotes", "shares"];
+
+/** Account-level metrics (`follower_demographics` needs a breakdown and is requested separately) */
+export const USER_METRICS = ["views", "likes", "replies", "reposts", "quotes", "clicks", "followers_count"];
+
+export const DEMOGRAPHIC_BREAKDOWNS: DemographicBreakdown[] = ["country", "city", "age", "gender"];
+
+/** Earliest `since` accepted by the account insights endpoint (2024-04-13) */
+export const USER_INSIGHTS_MIN_SINCE = 1712991600;
+
+const DEMOGRAPHICS_METRIC = "follower_demographics";
 
 /** Get media-level insights */
 export async function getMediaInsights(
   client: ThreadsClient,
   mediaId: string,
+  options?: { metrics?: string[] },
 ): Promise<{ data: ThreadsInsight[] }> {
   return client.request<{ data: ThreadsInsight[] }>("GET", `${mediaId}/insights`, {
-    metric: "views,likes,replies,reposts,quotes",
+    metric: (options?.metrics ?? MEDIA_METRICS).join(","),
   } as Record<string, unknown>);
 }
 
-/** Get account-level insights */
+/**
+ * Get account-level insights.
+ *
+ * `since`/`until` are unix seconds. When `follower_demographics` is among the
+ * metrics (or `breakdown` is given), it is fetched in its own request with the
+ * breakdown, since the API rejects it without one.
+ */
 export async function getUserInsights(
   client: ThreadsClient,
-  options?: { since?: number; until?: number },
+  options?: { since?: number; until?: number; metrics?: string[]; breakdown?: DemographicBreakdown },
 ): Promise<{ data: ThreadsInsight[] }> {
   const userId = client.userId;
   if (!userId) throw new Error("user_id is required.");
+  if (options?.since !== undefined && options.since < USER_INSIGHTS_MIN_SINCE) {
+    throw new Error("Account insights are only available from 2024-04-13 onwards.");
+  }
+  if (options?.since !== undefined && options.until !== undefined && options.since > options.until) {
+    throw new Error("'since' must be before 'until'.");
+  }
+
+  const requested = options?.metrics ?? USER_METRICS;
+  const metrics = requested.filter((m) => m !== DEMOGRAPHICS_METRIC);
+  const wantsDemographics = requested.includes(DEMOGRAPHICS_METRIC) || options?.breakdown !== undefined;
 
-  const params: Record<string, unknown> = {
-    metric: "views,likes,replies,reposts,quotes,followers_count,follower_demographics",
-  };
-  if (options?.since) params.since = options.since;
-  if (options?.until) params.until = options.until;
+  const range: Record<string, unknown> = {};
+  if (options?.since) range.since = options.since;
+  if (options?.until) range.until = options.until;
+
+  const data: ThreadsInsight[] = [];
+  if (metrics.length) {
+    const res = await client.request<{ data: ThreadsInsight[] }>("GET", `${userId}/threads_insights`, {
+      ...range,
+      metric: metrics.join(","),
+    });
+    data.push(...(res.data ?? []));
+  }
+  if (wantsDemographics) {
+    // Demographics describe current followers; the API ignores since/until for them
+    const res = await client.request<{ data: ThreadsInsight[] }>("GET", `${userId}/threads_insights`, {
+      metric: DEMOGRAPHICS_METRIC,
+      breakdown: options?.breakdown ?? "country",
+    });
+    data.push(...(res.data ?? []));
+  }
+  return { data };
+}
+
+/** Total value of an insight: `total_value.value`, or the sum of its data points */
+export function insightTotal(insight: ThreadsInsight): number | undefined {
+  if (typeof insight.total_value?.value === "number") return insight.total_value.value;
+  if (!insight.values?.length) return undefined;
+  return insight.values.reduce((sum, v) => sum + (v.value ?? 0), 0);
+}
+
+/** Daily data points of a time-series insight (empty for totals and lifetime values) */
+export function insightSeries(insight: ThreadsInsight): Array<{ end_time: string; value: number }> {
+  return (insight.values ?? [])
+    .filter((v): v is { value: number; end_time: string } => Boolean(v.end_time))
+    .map((v) => ({ end_time: v.end_time, value: v.value ?? 0 }));
+}
 
-  return client.request<{ data: ThreadsInsight[] }>("GET", `${userId}/threads_insights`, params);
+/** Breakdown results of an insight as `{ dimension, value }`, largest first */
+export function insightBreakdown(insight: ThreadsInsight): Array<{ dimension: string; value: number }> {
+  return (insight.total_value?.breakdowns ?? [])
+    .flatMap((b) => b.results.map((r) => ({ dimension: r.dimension_values.join(" / "), value: r.value })))
+    .sort((a, b) => b.value - a.value);
 }
@@ -0,0 +1,90 @@
+import type { ThreadsClient } from "./index.js";
+import type { PaginatedResult } from "./types.js";
+
+export interface PageParams {
+  after?: string;
+  before?: string;
+  limit?: number;
+}
+
+export interface PaginateOptions<T> {
+  /** Start after this cursor (forward paging) */
+  after?: string;
+  /** Start before this cursor (backward paging) */
+  before?: string;
+  /** Stop after yielding this many items */
+  max?: number;
+  /** Page size requested from the API */
+  pageSize?: number;
+  /** Called after each page is fetched */
+  onPage?: (page: PaginatedResult<T>) => void;
+}
+
+const DEFAULT_PAGE_SIZE = 25;
+
+/**
+ * Iterate over every item across pages of a cursor-paginated endpoint.
+ *
+ * ```ts
+ * for await (const post of paginate(client, (c, p) => getUserThreads(c, p))) { ... }
+ * ```
+ *
+ * Page sizes are shrunk to the remaining `max`, so iteration never stops in the
+ * middle of a page and the last page's cursor is a clean resume point.
+ */
+export async function* paginate<T>(
+  client: ThreadsClient,
+  fetchPage: (client: ThreadsClient, params: PageParams) => Promise<PaginatedResult<T>>,
+  options: PaginateOptions<T> = {},
+): AsyncGenerator<T> {
+  const backward = Boolean(options.before) && !options.after;
+  let cursor = backward ? options.before : options.after;
+  let remaining = options.max ?? Infinity;
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+
+  while (remaining > 0) {
+    const params: PageParams = { limit: Math.min(pageSize, remaining) };
+    if (cursor) {
+      if (backward) params.before = cursor; else params.after = cursor;
+    }
+
+    const page = await fetchPage(client, params);
+    options.onPage?.(page);
+
+    const items = page.data ?? [];
+    for (const item of items) {
+      yield item;
+      remaining--;
+    }
+
+    const next = backward ? page.paging?.cursors?.before : page.paging?.cursors?.after;
+    const hasMore = backward ? Boolean(page.paging?.previous) : Boolean(page.paging?.next);
+    if (!items.length || !hasMore || !next || next === cursor) break;
+    cursor = next;
+  }
+}
+
+/** Collect paginated items into an array, returning the cursor to resume from */
+export async function collectPages<T>(
+  client: ThreadsClient,
+  fetchPage: (client: ThreadsClient, params: PageParams) => Promise<PaginatedResult<T>>,
+  options: PaginateOptions<T> = {},
+): Promise<{ data: T[]; next_cursor?: string }> {
+  const backward = Boolean(options.before) && !options.after;
+  let nextCursor: string | undefined;
+  const data: T[] = [];
+
+  for await (const item of paginate(client, fetchPage, {
+    ...options,
+    onPage: (page) => {
+      const hasMore = backward ? Boolean(page.paging?.previous) : Boolean(page.paging?.next);
+      const cursor = backward ? page.paging?.cursors?.before : page.paging?.cursors?.after;
+      nextCursor = hasMore ? cursor : undefined;
+      options.onPage?.(page);
+    },
+  })) {
+    data.push(item);
+  }
+
+  return { data, next_cursor: nextCursor };
+}
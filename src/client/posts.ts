@@ -5,12 +5,41 @@ import type {
   PaginatedResult,
   MediaContainer,
   MediaType,
+  PublishingLimit,
   ReplyControl,
+  ThreadSegment,
 } from "./types.js";
 
+const POST_FIELDS = "id,media_type,text,timestamp,permalink,username,is_quote_post,quoted_post,reposted_post";
+
+/** Fields kept by `thrd export`: the post fields plus media URL, shortcode and carousel children */
+export const ARCHIVE_FIELDS = `${POST_FIELDS},media_url,shortcode,children`;
+
 const POLL_INTERVAL_MS = 2000;
 const POLL_TIMEOUT_MS = 60_000;
 
+/** Maximum characters per post */
+export const MAX_TEXT_LENGTH = 500;
+
+/** Called when a container has finished processing, before publishing */
+export type ContainerFinishedHandler = (container: { id: string; media_url?: string }) => void | Promise<void>;
+
+/** Called right after a container is created, so callers can record it before polling */
+export type ContainerCreatedHandler = (container: {
+  id: string;
+  media_type: MediaType;
+  media_url?: string;
+  is_carousel_item?: boolean;
+  /** Item container IDs of a carousel */
+  children?: string[];
+}) => void | Promise<void>;
+
+/** Called after a container is published with the resulting post */
+export type ContainerPublishedHandler = (container: { id: string }, post: { id: string }) => void | Promise<void>;
+
+const SEGMENT_SEPARATOR = /^\s*-{3,}\s*$/;
+const MEDIA_LINE = /^!\[([^\]]*)\]\((\S+)\)$/;
+
 /** Create a media container */
 export async function createContainer(
   client: ThreadsClient,
@@ -21,6 +50,8 @@ export async function createContainer(
     video_url?: string;
     reply_to_id?: string;
     reply_control?: ReplyControl;
+    /** Post to quote */
+    quote_post_id?: string;
     is_carousel_item?: boolean;
   },
 ): Promise<MediaContainer> {
@@ -36,6 +67,7 @@ export async function createContainer(
   if (options.video_url) body.video_url = options.video_url;
   if (options.reply_to_id) body.reply_to_id = options.reply_to_id;
   if (options.reply_control) body.reply_control = options.reply_control;
+  if (options.quote_post_id) body.quote_post_id = options.quote_post_id;
   if (options.is_carousel_item) body.is_carousel_item = true;
 
   const res = await client.request<{ id: string }>("POST", `${userId}/threads`, body);
@@ -70,6 +102,15 @@ async function pollContainerStatus(
   throw new Error(`Container status polling timed out after ${POLL_TIMEOUT_MS / 1000}s.`);
 }
 
+/** Wait for a container to finish processing, then publish it */
+export async function publishWhenReady(
+  client: ThreadsClient,
+  containerId: string,
+): Promise<{ id: string }> {
+  await pollContainerStatus(client, containerId);
+  return publishContainer(client, containerId);
+}
+
 /** Publish a container */
 export async function publishContainer(
   client: ThreadsClient,
@@ -91,6 +132,10 @@ export async function createPost(
     video_url?: string;
     reply_to_id?: string;
     reply_control?: ReplyControl;
+    quote_post_id?: string;
+    onContainerCreated?: ContainerCreatedHandler;
+    onContainerFinished?: ContainerFinishedHandler;
+    onContainerPublished?: ContainerPublishedHandler;
   },
 ): Promise<{ id: string }> {
   let media_type: MediaType = "TEXT";
@@ -104,12 +149,18 @@ export async function createPost(
     video_url: options?.video_url,
     reply_to_id: options?.reply_to_id,
     reply_control: options?.reply_control,
+    quote_post_id: options?.quote_post_id,
   });
+  const media_url = options?.image_url ?? options?.video_url;
+  await options?.onContainerCreated?.({ id: container.id, media_type, media_url });
 
   // Poll status for all post types (TEXT containers may also need processing time)
   await pollContainerStatus(client, container.id);
+  await options?.onContainerFinished?.({ id: container.id, media_url });
 
-  return publishContainer(client, container.id);
+  const post = await publishContainer(client, container.id);
+  await options?.onContainerPublished?.(container, post);
+  return post;
 }
 
 /** Create a carousel post */
@@ -117,7 +168,14 @@ export async function createCarouselPost(
   client: ThreadsClient,
   text: string,
   mediaUrls: string[],
-  options?: { reply_control?: ReplyControl },
+  options?: {
+    reply_control?: ReplyControl;
+    /** Type of each item (e.g. from a media preflight); guessed from the file extension when missing */
+    mediaTypes?: Array<"IMAGE" | "VIDEO" | undefined>;
+    onContainerCreated?: ContainerCreatedHandler;
+    onContainerFinished?: ContainerFinishedHandler;
+    onContainerPublished?: ContainerPublishedHandler;
+  },
 ): Promise<{ id: string }> {
   const userId = client.userId;
   if (!userId) throw new Error("user_id is required.");
@@ -127,15 +185,18 @@ export async function createCarouselPost(
 
   // Create carousel items
   const itemIds: string[] = [];
-  for (const url of mediaUrls) {
-    const isVideo = /\.(mp4|mov)$/i.test(url);
+  for (const [index, url] of mediaUrls.entries()) {
+    const media_type: MediaType = options?.mediaTypes?.[index] ?? (/\.(mp4|mov)$/i.test(url) ? "VIDEO" : "IMAGE");
+    const isVideo = media_type === "VIDEO";
     const container = await createContainer(client, {
-      media_type: isVideo ? "VIDEO" : "IMAGE",
+      media_type,
       ...(isVideo ? { video_url: url } : { image_url: url }),
       is_carousel_item: true,
     });
+    await options?.onContainerCreated?.({ id: container.id, media_type, media_url: url, is_carousel_item: true });
     // Poll status for each item
     await pollContainerStatus(client, container.id);
+    await options?.onContainerFinished?.({ id: container.id, media_url: url });
     itemIds.push(container.id);
   }
 
@@ -148,9 +209,157 @@ export async function createCarouselPost(
   if (options?.reply_control) body.reply_control = options.reply_control;
 
   const carousel = await client.request<{ id: string }>("POST", `${userId}/threads`, body);
+  await options?.onContainerCreated?.({ id: carousel.id, media_type: "CAROUSEL", children: itemIds });
   // Poll carousel parent container status before publishing
   await pollContainerStatus(client, carousel.id);
-  return publishContainer(client, carousel.id);
+  await options?.onContainerFinished?.({ id: carousel.id });
+  const post = await publishContainer(client, carousel.id);
+  await options?.onContainerPublished?.(carousel, post);
+  return post;
+}
+
+/** Count characters the way Threads does (code points, not UTF-16 units) */
+function textLength(text: string): number {
+  return Array.from(text).length;
+}
+
+/** Split text into chunks of at most maxLength characters without breaking words */
+function chunkText(text: string, maxLength: number): string[] {
+  if (textLength(text) <= maxLength) return [text];
+
+  const chunks: string[] = [];
+  let current = "";
+  let gap = "";
+  for (const token of text.split(/(\s+)/)) {
+    if (!token) continue;
+    if (/^\s+$/.test(token)) {
+      gap = token;
+      continue;
+    }
+
+    const candidate = current ? current + gap + token : token;
+    gap = "";
+    if (textLength(candidate) <= maxLength) {
+      current = candidate;
+      continue;
+    }
+
+    if (current) chunks.push(current);
+    // A single word longer than the limit has to be hard-split
+    const chars = Array.from(token);
+    while (chars.length > maxLength) {
+      chunks.push(chars.splice(0, maxLength).join(""));
+    }
+    current = chars.join("");
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Split a markdown/plain-text source into thread segments.
+ *
+ * - A line containing only `---` starts a new segment.
+ * - Segments longer than maxLength are split at word boundaries.
+ * - A line containing only `![alt](url)` attaches media to the segment:
+ *   a video if the alt text is `video` or the URL ends in .mp4/.mov, otherwise an image.
+ *   When a segment is auto-split, its media goes on the first post.
+ */
+export function splitThread(source: string, maxLength = MAX_TEXT_LENGTH): ThreadSegment[] {
+  const blocks: string[][] = [[]];
+  for (const line of source.replace(/\r\n/g, "\n").split("\n")) {
+    if (SEGMENT_SEPARATOR.test(line)) {
+      blocks.push([]);
+    } else {
+      blocks[blocks.length - 1].push(line);
+    }
+  }
+
+  const segments: ThreadSegment[] = [];
+  for (const lines of blocks) {
+    const media: Array<{ alt: string; url: string }> = [];
+    const textLines: string[] = [];
+    for (const line of lines) {
+      const match = MEDIA_LINE.exec(line.trim());
+      if (match) {
+        media.push({ alt: match[1], url: match[2] });
+      } else {
+        textLines.push(line);
+      }
+    }
+
+    const text = textLines.join("\n").trim();
+    if (!text && !media.length) continue;
+    if (media.length > 1) {
+      throw new Error(
+        `Segment ${segments.length + 1} has ${media.length} media items; only one image or video per segment is supported.`,
+      );
+    }
+
+    const chunks = text ? chunkText(text, maxLength) : [""];
+    chunks.forEach((chunk, i) => {
+      const segment: ThreadSegment = { text: chunk };
+      if (i === 0 && media[0]) {
+        const { alt, url } = media[0];
+        const isVideo = alt.toLowerCase() === "video" || /\.(mp4|mov)$/i.test(url);
+        if (isVideo) segment.video_url = url; else segment.image_url = url;
+      }
+      segments.push(segment);
+    });
+  }
+
+  return segments;
+}
+
+/**
+ * Publish segments as a chain, each post replying to the previous one.
+ *
+ * Pass the IDs of already published segments in `published` to resume a chain
+ * that failed partway; `onPublished` is called after each new post so callers
+ * can persist progress.
+ */
+export async function createThreadChain(
+  client: ThreadsClient,
+  segments: ThreadSegment[],
+  options?: {
+    reply_to_id?: string;
+    reply_control?: ReplyControl;
+    published?: string[];
+    onPublished?: (index: number, id: string) => void;
+    onContainerCreated?: ContainerCreatedHandler;
+    onContainerFinished?: ContainerFinishedHandler;
+    onContainerPublished?: ContainerPublishedHandler;
+  },
+): Promise<{ ids: string[] }> {
+  if (!segments.length) throw new Error("Thread has no segments.");
+  for (const [i, segment] of segments.entries()) {
+    if (textLength(segment.text) > MAX_TEXT_LENGTH) {
+      throw new Error(`Segment ${i + 1} exceeds ${MAX_TEXT_LENGTH} characters.`);
+    }
+  }
+
+  const ids = [...(options?.published ?? [])];
+  if (ids.length > segments.length) {
+    throw new Error("More published IDs than segments; the source file has changed.");
+  }
+
+  for (let i = ids.length; i < segments.length; i++) {
+    const segment = segments[i];
+    const replyTo = i === 0 ? options?.reply_to_id : ids[i - 1];
+    const result = await createPost(client, segment.text, {
+      image_url: segment.image_url,
+      video_url: segment.video_url,
+      reply_to_id: replyTo,
+      reply_control: options?.reply_control,
+      onContainerCreated: options?.onContainerCreated,
+      onContainerFinished: options?.onContainerFinished,
+      onContainerPublished: options?.onContainerPublished,
+    });
+    ids.push(result.id);
+    options?.onPublished?.(i, result.id);
+  }
+
+  return { ids };
 }
 
 /** Delete a post */
@@ -159,20 +368,37 @@ export async function deletePost(client: ThreadsClient, postId: string): Promise
   return Boolean(res.success);
 }
 
+/** Repost another post to your profile (no container step) */
+export async function repost(client: ThreadsClient, postId: string): Promise<{ id: string }> {
+  return client.request<{ id: string }>("POST", `${postId}/repost`);
+}
+
+/** Get the 24-hour publishing quota (posts and replies) */
+export async function getPublishingLimit(client: ThreadsClient): Promise<PublishingLimit> {
+  const userId = client.userId;
+  if (!userId) throw new Error("user_id is required.");
+  const res = await client.request<{ data?: PublishingLimit[] }>("GET", `${userId}/threads_publishing_limit`, {
+    fields: "quota_usage,config,reply_quota_usage,reply_config",
+  });
+  return res.data?.[0] ?? {};
+}
+
 /** Get user's threads */
 export async function getUserThreads(
   client: ThreadsClient,
-  options?: { limit?: number; after?: string; before?: string },
+  options?: { limit?: number; after?: string; before?: string; since?: number; until?: number; fields?: string },
 ): Promise<PaginatedResult<ThreadsPost>> {
   const userId = client.userId;
   if (!userId) throw new Error("user_id is required.");
 
   const params: Record<string, unknown> = {
-    fields: "id,media_type,text,timestamp,permalink,username,is_quote_post",
+    fields: options?.fields ?? POST_FIELDS,
   };
   if (options?.limit) params.limit = options.limit;
   if (options?.after) params.after = options.after;
   if (options?.before) params.before = options.before;
+  if (options?.since) params.since = options.since;
+  if (options?.until) params.until = options.until;
 
   return client.request<PaginatedResult<ThreadsPost>>("GET", `${userId}/threads`, params);
 }
@@ -181,8 +407,9 @@ export async function getUserThreads(
 export async function getThread(
   client: ThreadsClient,
   threadId: string,
+  fields = POST_FIELDS,
 ): Promise<ThreadsPost> {
   return client.request<ThreadsPost>("GET", threadId, {
-    fields: "id,media_type,text,timestamp,permalink,username,is_quote_post",
+    fields,
   } as Record<string, unknown>);
 }
@@ -1,7 +1,9 @@
 import type { ThreadsClient } from "./index.js";
-import type { ThreadsUser } from "./types.js";
+import type { PaginatedResult, PublicProfile, ThreadsPost, ThreadsUser } from "./types.js";
 
-const PROFILE_FIELDS = "id,username,threads_profile_picture_url,threads_biography";
+const PROFILE_FIELDS = "id,username,name,threads_profile_picture_url,threads_biography,is_verified";
+
+const PROFILE_POST_FIELDS = "id,media_type,text,timestamp,permalink,username,is_quote_post,quoted_post,reposted_post";
 
 /** Get authenticated user's profile */
 export async function me(client: ThreadsClient): Promise<ThreadsUser> {
@@ -12,3 +14,26 @@ export async function me(client: ThreadsClient): Promise<ThreadsUser> {
 export async function getProfile(client: ThreadsClient, userId: string): Promise<ThreadsUser> {
   return client.request<ThreadsUser>("GET", userId, { fields: PROFILE_FIELDS } as Record<string, unknown>);
 }
+
+/**
+ * Look up a public profile by username (requires threads_profile_discovery).
+ * Includes follower and engagement counts where the account exposes them.
+ */
+export async function lookupProfile(client: ThreadsClient, username: string): Promise<PublicProfile> {
+  return client.request<PublicProfile>("GET", "profile_lookup", { username: username.replace(/^@/, "") });
+}
+
+/** List a public profile's posts by username (requires threads_profile_discovery) */
+export async function getProfilePosts(
+  client: ThreadsClient,
+  username: string,
+  options?: { limit?: number; after?: string; before?: string; since?: number; until?: number },
+): Promise<PaginatedResult<ThreadsPost>> {
+  const params: Record<string, unknown> = { username: username.replace(/^@/, ""), fields: PROFILE_POST_FIELDS };
+  if (options?.limit) params.limit = options.limit;
+  if (options?.after) params.after = options.after;
+  if (options?.before) params.before = options.before;
+  if (options?.since) params.since = options.since;
+  if (options?.until) params.until = options.until;
+  return client.request<PaginatedResult<ThreadsPost>>("GET", "profile_posts", params);
+}
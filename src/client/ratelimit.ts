@@ -0,0 +1,77 @@
+import type { AppUsage, BusinessUseCaseUsage, RateLimitUsage } from "./types.js";
+
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 60_000;
+/** Longest proactive pause while usage is between the threshold and 100% */
+const THROTTLE_MAX_MS = 30_000;
+/** Pause at 100% usage when Meta gives no estimated time to regain access */
+const THROTTLE_BLOCKED_MS = 60_000;
+
+function parseJsonHeader<T>(value: string | null): T | undefined {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Parse `Retry-After` (seconds or HTTP date) into milliseconds */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  if (/^\d+(\.\d+)?$/.test(value.trim())) return Math.round(parseFloat(value) * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Build a usage snapshot from `X-App-Usage`, `X-Business-Use-Case-Usage`
+ * and `Retry-After`. Returns undefined when none of the headers are present.
+ */
+export function parseUsageHeaders(headers: Headers): RateLimitUsage | undefined {
+  const app = parseJsonHeader<AppUsage>(headers.get("x-app-usage"));
+  const bucMap = parseJsonHeader<Record<string, BusinessUseCaseUsage[]>>(headers.get("x-business-use-case-usage"));
+  const retryAfterMs = parseRetryAfter(headers.get("retry-after"));
+  if (!app && !bucMap && retryAfterMs === undefined) return undefined;
+
+  const business = bucMap
+    ? Object.entries(bucMap).flatMap(([id, entries]) => entries.map((e) => ({ ...e, id })))
+    : undefined;
+
+  const percents = [
+    app?.call_count, app?.total_time, app?.total_cputime,
+    ...(business ?? []).flatMap((b) => [b.call_count, b.total_time, b.total_cputime]),
+  ].filter((v): v is number => typeof v === "number");
+
+  const regainMinutes = Math.max(0, ...(business ?? []).map((b) => b.estimated_time_to_regain_access ?? 0));
+
+  return {
+    app,
+    business,
+    retry_after_ms: retryAfterMs,
+    regain_access_ms: regainMinutes > 0 ? regainMinutes * 60_000 : undefined,
+    max_percent: percents.length ? Math.max(...percents) : 0,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/**
+ * How long to wait before the next request given the last usage snapshot.
+ * Nothing below `threshold` percent; a linear ramp up to THROTTLE_MAX_MS
+ * between the threshold and 100%; the regain-access estimate once blocked.
+ */
+export function throttleDelayMs(usage: RateLimitUsage | undefined, threshold: number): number {
+  if (!usage || usage.max_percent < threshold) return 0;
+  if (usage.max_percent >= 100) {
+    return usage.regain_access_ms ?? usage.retry_after_ms ?? THROTTLE_BLOCKED_MS;
+  }
+  const ratio = (usage.max_percent - threshold) / Math.max(1, 100 - threshold);
+  return Math.round(ratio * THROTTLE_MAX_MS);
+}
+
+/** Exponential backoff with full jitter, never shorter than a server-provided Retry-After */
+export function backoffDelayMs(attempt: number, retryAfterMs?: number): number {
+  const cap = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  const jittered = Math.round(Math.random() * cap);
+  return Math.max(jittered, retryAfterMs ?? 0);
+}
@@ -1,15 +1,16 @@
 import type { ThreadsClient } from "./index.js";
 import type { ThreadsPost, PaginatedResult } from "./types.js";
 
-const REPLY_FIELDS = "id,media_type,text,timestamp,permalink,username,is_quote_post";
+const REPLY_FIELDS = "id,media_type,text,timestamp,permalink,username,is_quote_post,is_reply,replied_to,root_post,has_replies,hide_status";
 
 /** Get replies to a thread */
 export async function getReplies(
   client: ThreadsClient,
   threadId: string,
-  options?: { after?: string; before?: string },
+  options?: { limit?: number; after?: string; before?: string },
 ): Promise<PaginatedResult<ThreadsPost>> {
   const params: Record<string, unknown> = { fields: REPLY_FIELDS };
+  if (options?.limit) params.limit = options.limit;
   if (options?.after) params.after = options.after;
   if (options?.before) params.before = options.before;
   return client.request<PaginatedResult<ThreadsPost>>("GET", `${threadId}/replies`, params);
@@ -19,9 +20,10 @@ export async function getReplies(
 export async function getConversation(
   client: ThreadsClient,
   threadId: string,
-  options?: { after?: string; before?: string },
+  options?: { limit?: number; after?: string; before?: string },
 ): Promise<PaginatedResult<ThreadsPost>> {
   const params: Record<string, unknown> = { fields: REPLY_FIELDS };
+  if (options?.limit) params.limit = options.limit;
   if (options?.after) params.after = options.after;
   if (options?.before) params.before = options.before;
   return client.request<PaginatedResult<ThreadsPost>>("GET", `${threadId}/conversation`, params);
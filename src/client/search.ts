@@ -0,0 +1,60 @@
+import type { ThreadsClient } from "./index.js";
+import type { ThreadsPost, PaginatedResult } from "./types.js";
+
+const SEARCH_FIELDS = "id,media_type,text,timestamp,permalink,username,is_quote_post,has_replies,root_post,replied_to";
+
+export type SearchType = "TOP" | "RECENT";
+
+/** KEYWORD matches text; TAG matches topic tags */
+export type SearchMode = "KEYWORD" | "TAG";
+
+export type SearchMediaType = "TEXT" | "IMAGE" | "VIDEO";
+
+export const SEARCH_TYPES: SearchType[] = ["TOP", "RECENT"];
+export const SEARCH_MODES: SearchMode[] = ["KEYWORD", "TAG"];
+export const SEARCH_MEDIA_TYPES: SearchMediaType[] = ["TEXT", "IMAGE", "VIDEO"];
+
+/** Search public posts by keyword or topic tag (requires threads_keyword_search) */
+export async function searchPosts(
+  client: ThreadsClient,
+  query: string,
+  options?: {
+    search_type?: SearchType;
+    search_mode?: SearchMode;
+    media_type?: SearchMediaType;
+    /** Unix seconds */
+    since?: number;
+    until?: number;
+    limit?: number;
+    after?: string;
+    before?: string;
+  },
+): Promise<PaginatedResult<ThreadsPost>> {
+  const params: Record<string, unknown> = { q: query, fields: SEARCH_FIELDS };
+  if (options?.search_type) params.search_type = options.search_type;
+  if (options?.search_mode) params.search_mode = options.search_mode;
+  if (options?.media_type) params.media_type = options.media_type;
+  if (options?.since) params.since = options.since;
+  if (options?.until) params.until = options.until;
+  if (options?.limit) params.limit = options.limit;
+  if (options?.after) params.after = options.after;
+  if (options?.before) params.before = options.before;
+  return client.request<PaginatedResult<ThreadsPost>>("GET", "keyword_search", params);
+}
+
+/** Posts that mention the authenticated user (requires threads_manage_mentions) */
+export async function getMentions(
+  client: ThreadsClient,
+  options?: { since?: number; until?: number; limit?: number; after?: string; before?: string },
+): Promise<PaginatedResult<ThreadsPost>> {
+  const userId = client.userId;
+  if (!userId) throw new Error("user_id is required.");
+
+  const params: Record<string, unknown> = { fields: SEARCH_FIELDS };
+  if (options?.since) params.since = options.since;
+  if (options?.until) params.until = options.until;
+  if (options?.limit) params.limit = options.limit;
+  if (options?.after) params.after = options.after;
+  if (options?.before) params.before = options.before;
+  return client.request<PaginatedResult<ThreadsPost>>("GET", `${userId}/mentions`, params);
+}
@@ -0,0 +1,136 @@
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from "fs";
+import { dirname } from "path";
+
+/** Fetch-compatible function used by ThreadsClient */
+export type FetchLike = (input: string | URL, init?: RequestInit) => Promise<Response>;
+
+export interface RecordedExchange {
+  request: {
+    method: string;
+    url: string;
+    body?: string;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body: string;
+  };
+}
+
+export interface FixtureFile {
+  version: 1;
+  exchanges: RecordedExchange[];
+}
+
+/** Query/form parameters whose values are replaced before saving */
+const SECRET_PARAMS = ["access_token", "client_secret", "input_token", "code"];
+const REDACTED = "REDACTED";
+/** Response headers whose values are replaced before saving */
+const SECRET_HEADER_PATTERN = /^(set-cookie|cookie)$|authorization|authenticate|token/i;
+
+/** Replace secret query/form values with a placeholder */
+export function redactSecrets(value: string): string {
+  let result = value;
+  for (const name of SECRET_PARAMS) {
+    result = result.replace(new RegExp(`([?&]|^)(${name}=)[^&#\\s]*`, "g"), `$1$2${REDACTED}`);
+  }
+  return result;
+}
+
+/** Replace secret values in JSON response bodies (e.g. token exchange responses) */
+function redactJsonSecrets(body: string): string {
+  let result = body;
+  for (const name of SECRET_PARAMS) {
+    result = result.replace(new RegExp(`("${name}"\\s*:\\s*)"[^"]*"`, "g"), `$1"${REDACTED}"`);
+  }
+  return redactSecrets(result);
+}
+
+function requestBody(init?: RequestInit): string | undefined {
+  const body = init?.body;
+  if (body === undefined || body === null) return undefined;
+  if (typeof body === "string") return body;
+  if (body instanceof URLSearchParams) return body.toString();
+  // Binary bodies are not matched on; record a marker only
+  return "[binary]";
+}
+
+function exchangeKey(method: string, url: string, body?: string): string {
+  return `${method.toUpperCase()} ${redactSecrets(url)}\n${body ? redactSecrets(body) : ""}`;
+}
+
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+function buildResponse(status: number, body: string, init: { statusText?: string; headers?: HeadersInit }): Response {
+  return new Response(NULL_BODY_STATUSES.has(status) ? null : body, { status, ...init });
+}
+
+function readFixtures(path: string): FixtureFile {
+  if (!existsSync(path)) return { version: 1, exchanges: [] };
+  return JSON.parse(readFileSync(path, "utf-8")) as FixtureFile;
+}
+
+/**
+ * Wrap a fetch implementation so every request/response pair is appended to
+ * a fixtures file. Exchanges already in the file are kept, so several runs can
+ * record into one file; delete it to start over. Access tokens, secrets,
+ * cookies and authorization headers are redacted before writing.
+ */
+export function createRecordingFetch(fixturesPath: string, options?: { fetch?: FetchLike }): FetchLike {
+  const inner = options?.fetch ?? ((input, init) => fetch(input, init));
+  const fixtures = readFixtures(fixturesPath);
+
+  return async (input, init) => {
+    const url = input.toString();
+    const res = await inner(input, init);
+    const body = await res.text();
+
+    const headers: Record<string, string> = {};
+    res.headers.forEach((value, key) => { headers[key] = SECRET_HEADER_PATTERN.test(key) ? REDACTED : value; });
+    const reqBody = requestBody(init);
+    fixtures.exchanges.push({
+      request: {
+        method: (init?.method ?? "GET").toUpperCase(),
+        url: redactSecrets(url),
+        ...(reqBody !== undefined ? { body: redactSecrets(reqBody) } : {}),
+      },
+      response: { status: res.status, headers, body: redactJsonSecrets(body) },
+    });
+
+    mkdirSync(dirname(fixturesPath), { recursive: true });
+    writeFileSync(fixturesPath, JSON.stringify(fixtures, null, 2) + "\n");
+
+    return buildResponse(res.status, body, { statusText: res.statusText, headers: res.headers });
+  };
+}
+
+/**
+ * Serve responses from a fixtures file without touching the network.
+ *
+ * Requests are matched on method, URL and body (secrets redacted). Repeated
+ * identical requests consume matching exchanges in recorded order, so polling
+ * sequences (IN_PROGRESS → FINISHED) replay faithfully. An unmatched request
+ * throws.
+ */
+export function createReplayFetch(fixturesPath: string): FetchLike {
+  const fixtures = readFixtures(fixturesPath);
+  const queues = new Map<string, RecordedExchange[]>();
+  for (const exchange of fixtures.exchanges) {
+    const key = exchangeKey(exchange.request.method, exchange.request.url, exchange.request.body);
+    const queue = queues.get(key) ?? [];
+    queue.push(exchange);
+    queues.set(key, queue);
+  }
+
+  return async (input, init) => {
+    const method = init?.method ?? "GET";
+    const key = exchangeKey(method, input.toString(), requestBody(init));
+    const queue = queues.get(key);
+    if (!queue?.length) {
+      throw new Error(`No recorded response for ${method.toUpperCase()} ${redactSecrets(input.toString())} in ${fixturesPath}`);
+    }
+    // Keep the last exchange so extra identical requests still get a response
+    const exchange = queue.length > 1 ? queue.shift()! : queue[0];
+    return buildResponse(exchange.response.status, exchange.response.body, { headers: exchange.response.headers });
+  };
+}
@@ -10,22 +10,82 @@ export type ReplyControl = "everyone" | "accounts_you_follow" | "mentioned_only"
 
 export interface ThreadsPost {
   id: string;
-  media_type?: MediaType;
+  /** `REPOST_FACADE` for reposts */
+  media_type?: MediaType | "REPOST_FACADE";
   media_url?: string;
   text?: string;
   timestamp?: string;
   permalink?: string;
   username?: string;
   is_quote_post?: boolean;
+  /** Post quoted by a quote post */
+  quoted_post?: { id: string };
+  /** Original post of a repost */
+  reposted_post?: { id: string };
   shortcode?: string;
   children?: { data: Array<{ id: string }> };
+  is_reply?: boolean;
+  /** Post this reply responds to */
+  replied_to?: { id: string };
+  /** Top-level post of the conversation */
+  root_post?: { id: string };
+  has_replies?: boolean;
+  hide_status?: "HIDDEN" | "NOT_HUSHED" | "UNHUSHED" | "COVERED" | "BLOCKED" | "RESTRICTED";
 }
 
+/** One post of a multi-post thread chain */
+export interface ThreadSegment {
+  text: string;
+  image_url?: string;
+  video_url?: string;
+}
+
+/** A Threads profile from `/me` or `/{user-id}` */
 export interface ThreadsUser {
   id: string;
   username?: string;
+  name?: string;
   threads_profile_picture_url?: string;
   threads_biography?: string;
+  is_verified?: boolean;
+}
+
+/**
+ * A public profile from `profile_lookup`: no `id`, plain `biography`/`profile_picture_url`
+ * field names, and follower and engagement counts.
+ */
+export interface PublicProfile {
+  username?: string;
+  name?: string;
+  profile_picture_url?: string;
+  biography?: string;
+  is_verified?: boolean;
+  follower_count?: number;
+  likes_count?: number;
+  quotes_count?: number;
+  replies_count?: number;
+  reposts_count?: number;
+  views_count?: number;
+}
+
+/** One data point of an insight; time-series metrics carry `end_time` */
+export interface InsightValue {
+  value: number;
+  end_time?: string;
+}
+
+export type DemographicBreakdown = "country" | "city" | "age" | "gender";
+
+/** Breakdown of a total value, e.g. follower_demographics by country */
+export interface InsightBreakdown {
+  dimension_keys: string[];
+  results: Array<{ dimension_values: string[]; value: number }>;
+}
+
+/** Aggregated value over the requested range (account-level totals and demographics) */
+export interface InsightTotalValue {
+  value?: number;
+  breakdowns?: InsightBreakdown[];
 }
 
 export interface ThreadsInsight {
@@ -33,7 +93,10 @@ export interface ThreadsInsight {
   title: string;
   description?: string;
   period: string;
-  values: Array<{ value: number }>;
+  /** Lifetime value (media insights) or daily series (account `views`) */
+  values?: InsightValue[];
+  /** Total over the range (account metrics other than `views`) */
+  total_value?: InsightTotalValue;
   id: string;
 }
 
@@ -65,6 +128,61 @@ export interface PaginatedResult<T> {
   };
 }
 
+/** `X-App-Usage` header: percentages of the app-level limits */
+export interface AppUsage {
+  call_count?: number;
+  total_time?: number;
+  total_cputime?: number;
+}
+
+/** One entry of the `X-Business-Use-Case-Usage` header */
+export interface BusinessUseCaseUsage {
+  id?: string;
+  type?: string;
+  call_count?: number;
+  total_time?: number;
+  total_cputime?: number;
+  /** Minutes until the limit resets, 0 if not blocked */
+  estimated_time_to_regain_access?: number;
+}
+
+/** Usage snapshot parsed from response headers */
+export interface RateLimitUsage {
+  app?: AppUsage;
+  business?: BusinessUseCaseUsage[];
+  retry_after_ms?: number;
+  regain_access_ms?: number;
+  /** Highest percentage across all reported counters */
+  max_percent: number;
+  timestamp: string;
+}
+
+/** Response of `/{user_id}/threads_publishing_limit` */
+export interface PublishingLimit {
+  quota_usage?: number;
+  config?: { quota_total?: number; quota_duration?: number };
+  reply_quota_usage?: number;
+  reply_config?: { quota_total?: number; quota_duration?: number };
+}
+
 export interface ThreadsClientOptions {
+  /** Custom fetch implementation (proxy agents, mocks, record/replay). Default: global fetch */
+  fetch?: (input: string | URL, init?: RequestInit) => Promise<Response>;
+  /** API origin. Default: https://graph.threads.net */
+  baseUrl?: string;
+  /** API version path segment. Default: v1.0 */
+  apiVersion?: string;
+  /** Headers added to every request */
+  headers?: Record<string, string>;
+  /** Abort each request after this many milliseconds */
+  timeoutMs?: number;
+  /** Abort all in-flight and future requests */
+  signal?: AbortSignal;
   onRateLimit?: (message: string) => void;
+  /** Called with a usage snapshot whenever a response carries usage headers */
+  onUsage?: (usage: RateLimitUsage) => void;
+  /** Retries for 429 (any method) and transient 5xx errors (GET/DELETE only). Default: 3 */
+  maxRetries?: number;
+  /** Start slowing down once any usage counter reaches this percentage. Default: 90 */
+  throttleThreshold?: number;
 }
@@ -1,6 +1,17 @@
 import { resolve } from "path";
 import { homedir } from "os";
 import { existsSync, readFileSync, statSync, mkdirSync, writeFileSync, chmodSync } from "fs";
+import type { MediaHostingConfig } from "./hosting.js";
+import type { WebhooksConfig } from "./webhooks.js";
+import {
+  decryptJson,
+  encryptJson,
+  isEncryptedEnvelope,
+  runCredentialCommand,
+  type CredentialCommand,
+  type CredentialKey,
+  type EncryptedEnvelope,
+} from "./secrets.js";
 
 export interface ThreadsConfig {
   app_id: string;
@@ -10,44 +21,189 @@ export interface ThreadsConfig {
   expires_at?: string;
 }
 
-interface ConfigFile {
+/** Credentials stored for a single named account */
+export interface ProfileConfig {
   app_id?: string;
   app_secret?: string;
   access_token?: string;
   user_id?: string;
   expires_at?: string;
+  /** Fetch credentials from an external program instead of storing them here */
+  credential_command?: CredentialCommand;
+}
+
+interface ConfigFile {
+  default_profile?: string;
+  profiles?: Record<string, ProfileConfig>;
+  media_hosting?: MediaHostingConfig;
+  webhooks?: WebhooksConfig;
+  /** Refresh the token automatically when it expires within this many days (0 disables) */
+  token_refresh_days?: number;
+  /** Credential command for profiles that do not set their own */
+  credential_command?: CredentialCommand;
 }
 
+/** Keys of the pre-profiles flat config format */
+const LEGACY_KEYS = ["app_id", "app_secret", "access_token", "user_id", "expires_at"] as const;
+
+const DEFAULT_PROFILE = "default";
+const DEFAULT_TOKEN_REFRESH_DAYS = 7;
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
 const CONFIG_DIR = resolve(process.env.HOME ?? homedir(), ".config/thrd-cli");
 const CONFIG_PATH = resolve(CONFIG_DIR, "config.json");
 
+let activeProfile: string | undefined;
+let passphrase: string | undefined;
+/** Envelope of the encrypted file last read; writes re-encrypt with its salt */
+let encryption: EncryptedEnvelope | undefined;
+
+/** Select the profile used by loadConfig/saveConfig when none is passed explicitly */
+export function setActiveProfile(name: string | undefined): void {
+  if (name !== undefined) validateProfileName(name);
+  activeProfile = name;
+}
+
 /**
- * Load config from environment variables or config file.
- * Priority: process.env → ~/.config/thrd-cli/config.json
+ * Resolve the profile name in effect.
+ * Priority: setActiveProfile (--profile) → THRD_PROFILE → default_profile in config → "default"
  */
-export function loadConfig(): ThreadsConfig {
-  let fileConfig: ConfigFile = {};
+export function getActiveProfileName(): string {
+  return activeProfile ?? process.env.THRD_PROFILE ?? readConfigFile().default_profile ?? DEFAULT_PROFILE;
+}
 
-  if (existsSync(CONFIG_PATH)) {
+/** Throw if `name` is not a usable profile name */
+export function validateProfileName(name: string): void {
+  if (!PROFILE_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid profile name '${name}'. Use letters, digits, '.', '_' or '-'.`);
+  }
+}
+
+/** Passphrase for an encrypted config file (otherwise THRD_PASSPHRASE is used) */
+export function setConfigPassphrase(value: string | undefined): void {
+  passphrase = value;
+}
+
+function requirePassphrase(): string {
+  const value = passphrase ?? process.env.THRD_PASSPHRASE;
+  if (!value) throw new Error(`${CONFIG_PATH} is encrypted. Set THRD_PASSPHRASE or run thrd in a terminal to enter the passphrase.`);
+  return value;
+}
+
+function readRawConfigFile(): Record<string, unknown> {
+  return JSON.parse(readFileSync(CONFIG_PATH, "utf-8"));
+}
+
+/** True if config.json is stored in the encrypted format */
+export function isConfigEncrypted(): boolean {
+  if (!existsSync(CONFIG_PATH)) return false;
+  try {
+    return isEncryptedEnvelope(readRawConfigFile());
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read the config file, migrating the legacy single-account format
+ * (`{ app_id, access_token, ... }` at the top level) into `profiles.default`.
+ */
+function readConfigFile(warn = false): ConfigFile {
+  if (!existsSync(CONFIG_PATH)) return {};
+
+  if (warn) {
     try {
       const mode = statSync(CONFIG_PATH).mode;
       if (mode & 0o004) {
         console.warn(`⚠ ${CONFIG_PATH} is world-readable. Run: chmod 600 ${CONFIG_PATH}`);
       }
     } catch { /* ignore */ }
+  }
 
-    try {
-      fileConfig = JSON.parse(readFileSync(CONFIG_PATH, "utf-8"));
-    } catch (err) {
-      console.warn(`⚠ Failed to parse ${CONFIG_PATH}: ${(err as Error).message}`);
-    }
+  let raw: Record<string, unknown>;
+  try {
+    raw = readRawConfigFile();
+  } catch (err) {
+    if (warn) console.warn(`⚠ Failed to parse ${CONFIG_PATH}: ${(err as Error).message}`);
+    return {};
   }
+  encryption = isEncryptedEnvelope(raw) ? raw.encrypted : undefined;
+  if (encryption) raw = decryptJson(encryption, requirePassphrase()) as Record<string, unknown>;
+
+  const hasLegacyKeys = LEGACY_KEYS.some((key) => key in raw);
+  if (!hasLegacyKeys) return raw as ConfigFile;
+
+  const legacy: ProfileConfig = {};
+  const rest: Record<string, unknown> = { ...raw };
+  for (const key of LEGACY_KEYS) {
+    if (typeof raw[key] === "string") legacy[key] = raw[key] as string;
+    delete rest[key];
+  }
+
+  const migrated = rest as ConfigFile;
+  const profiles = { ...(migrated.profiles ?? {}) };
+  profiles[DEFAULT_PROFILE] = { ...legacy, ...profiles[DEFAULT_PROFILE] };
+  migrated.profiles = profiles;
+  migrated.default_profile ??= DEFAULT_PROFILE;
+
+  try {
+    writeConfigFile(migrated);
+  } catch { /* keep working from memory if the file is read-only */ }
+  return migrated;
+}
 
-  const app_id = process.env.THREADS_APP_ID ?? fileConfig.app_id;
-  const app_secret = process.env.THREADS_APP_SECRET ?? fileConfig.app_secret;
-  const access_token = process.env.THREADS_ACCESS_TOKEN ?? fileConfig.access_token;
-  const user_id = process.env.THREADS_USER_ID ?? fileConfig.user_id;
-  const expires_at = fileConfig.expires_at;
+function writeConfigFile(config: ConfigFile): void {
+  const contents = encryption
+    ? { encrypted: encryptJson(config, requirePassphrase(), encryption) }
+    : config;
+  mkdirSync(CONFIG_DIR, { recursive: true });
+  writeFileSync(CONFIG_PATH, JSON.stringify(contents, null, 2) + "\n", { mode: 0o600 });
+  // Ensure permissions are correct even if file already existed
+  try { chmodSync(CONFIG_PATH, 0o600); } catch { /* ignore */ }
+}
+
+/**
+ * Credentials from the profile's `credential_command` (or the top-level one).
+ * Not run when the environment already supplies the app and token.
+ */
+function externalCredentials(file: ConfigFile, name: string): Partial<Record<CredentialKey, string>> {
+  const command = file.profiles?.[name]?.credential_command ?? file.credential_command;
+  if (!command) return {};
+  if (process.env.THREADS_APP_ID && process.env.THREADS_APP_SECRET && process.env.THREADS_ACCESS_TOKEN) return {};
+  return runCredentialCommand(command, name);
+}
+
+/** Where the profile's access token comes from */
+export function getTokenSource(profile?: string): "env" | "command" | "config" {
+  if (process.env.THREADS_ACCESS_TOKEN) return "env";
+  const name = profile ?? getActiveProfileName();
+  return externalCredentials(readConfigFile(), name).access_token ? "command" : "config";
+}
+
+/**
+ * Load config from environment variables, a credential command or the config file.
+ * Priority: process.env → credential_command → ~/.config/thrd-cli/config.json (selected profile)
+ */
+export function loadConfig(profile?: string, options?: { warnExpiry?: boolean }): ThreadsConfig {
+  const name = profile ?? getActiveProfileName();
+  const file = readConfigFile(true);
+  const fileConfig: ProfileConfig = file.profiles?.[name] ?? {};
+
+  if (file.profiles && Object.keys(file.profiles).length > 0 && !file.profiles[name] && !process.env.THREADS_ACCESS_TOKEN) {
+    throw new Error(
+      `Profile '${name}' not found in ${CONFIG_PATH}.\n` +
+      `Available profiles: ${Object.keys(file.profiles).join(", ")}\n` +
+      `Run 'thrd accounts add ${name}' to create it.`
+    );
+  }
+
+  const external = externalCredentials(file, name);
+  const app_id = process.env.THREADS_APP_ID ?? external.app_id ?? fileConfig.app_id;
+  const app_secret = process.env.THREADS_APP_SECRET ?? external.app_secret ?? fileConfig.app_secret;
+  const access_token = process.env.THREADS_ACCESS_TOKEN ?? external.access_token ?? fileConfig.access_token;
+  const user_id = process.env.THREADS_USER_ID ?? external.user_id ?? fileConfig.user_id;
+  // A stored expiry describes the stored token, not one from credential_command
+  const expires_at = external.access_token ? undefined : fileConfig.expires_at;
 
   if (!app_id || !app_secret || !access_token) {
     const missing: string[] = [];
@@ -55,14 +211,14 @@ export function loadConfig(): ThreadsConfig {
     if (!app_secret) missing.push("app_secret");
     if (!access_token) missing.push("access_token");
     throw new Error(
-      `Missing credentials: ${missing.join(", ")}\n` +
-      `Set them in ~/.config/thrd-cli/config.json or as environment variables.\n` +
+      `Missing credentials: ${missing.join(", ")} (profile: ${name})\n` +
+      `Set them in ~/.config/thrd-cli/config.json, through credential_command, or as environment variables.\n` +
       `Run 'thrd auth' to authenticate via OAuth.`
     );
   }
 
   // Warn if token is expiring soon
-  if (expires_at) {
+  if (expires_at && options?.warnExpiry !== false) {
     const expiresDate = new Date(expires_at);
     const daysLeft = (expiresDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24);
     if (daysLeft < 0) {
@@ -75,25 +231,128 @@ export function loadConfig(): ThreadsConfig {
   return { app_id, app_secret, access_token, user_id, expires_at };
 }
 
+/**
+ * Rewrite config.json in the encrypted format under `newPassphrase`
+ * (a new salt is generated). Fails if the file is already encrypted.
+ */
+export function encryptConfigFile(newPassphrase: string): void {
+  if (!existsSync(CONFIG_PATH)) throw new Error(`No config file at ${CONFIG_PATH}.`);
+  if (isConfigEncrypted()) throw new Error(`${CONFIG_PATH} is already encrypted.`);
+  const file = readConfigFile();
+  passphrase = newPassphrase;
+  encryption = encryptJson(file, newPassphrase);
+  writeConfigFile(file);
+}
+
+/** Rewrite an encrypted config.json as plaintext JSON */
+export function decryptConfigFile(): void {
+  if (!isConfigEncrypted()) throw new Error(`${CONFIG_PATH} is not encrypted.`);
+  const file = readConfigFile();
+  encryption = undefined;
+  writeConfigFile(file);
+}
+
 /** Get config file path */
 export function getConfigPath(): string {
   return CONFIG_PATH;
 }
 
-/** Save config to file */
-export function saveConfig(config: ConfigFile): void {
-  mkdirSync(CONFIG_DIR, { recursive: true });
+/** Get config directory (for other local state files) */
+export function getConfigDir(): string {
+  return CONFIG_DIR;
+}
 
-  // Merge with existing config
-  let existing: ConfigFile = {};
-  if (existsSync(CONFIG_PATH)) {
-    try {
-      existing = JSON.parse(readFileSync(CONFIG_PATH, "utf-8"));
-    } catch { /* ignore */ }
+/** Save config to file (merged into the selected profile) */
+export function saveConfig(config: ProfileConfig, profile?: string): void {
+  const name = profile ?? getActiveProfileName();
+  validateProfileName(name);
+
+  const file = readConfigFile();
+  const profiles = { ...(file.profiles ?? {}) };
+  // Unset fields must not erase stored values
+  const defined = Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined));
+  profiles[name] = { ...profiles[name], ...defined };
+
+  writeConfigFile({
+    ...file,
+    default_profile: file.default_profile ?? name,
+    profiles,
+  });
+}
+
+/** Get the `media_hosting` section used to upload local media files */
+export function getMediaHostingConfig(): MediaHostingConfig | undefined {
+  return readConfigFile().media_hosting;
+}
+
+/** Get the `webhooks` section used by `thrd webhooks serve` */
+export function getWebhooksConfig(): WebhooksConfig | undefined {
+  return readConfigFile().webhooks;
+}
+
+/**
+ * Days before expiry within which the token is refreshed automatically.
+ * Priority: THRD_TOKEN_REFRESH_DAYS → token_refresh_days in config → 7
+ */
+export function getTokenRefreshDays(): number {
+  const fromEnv = process.env.THRD_TOKEN_REFRESH_DAYS;
+  if (fromEnv !== undefined && fromEnv !== "") {
+    const days = Number(fromEnv);
+    if (!Number.isFinite(days) || days < 0) throw new Error(`Invalid THRD_TOKEN_REFRESH_DAYS '${fromEnv}'. Use a number of days (0 disables).`);
+    return days;
   }
+  return readConfigFile().token_refresh_days ?? DEFAULT_TOKEN_REFRESH_DAYS;
+}
 
-  const merged = { ...existing, ...config };
-  writeFileSync(CONFIG_PATH, JSON.stringify(merged, null, 2) + "\n", { mode: 0o600 });
-  // Ensure permissions are correct even if file already existed
-  try { chmodSync(CONFIG_PATH, 0o600); } catch { /* ignore */ }
+/** List stored profiles along with the default profile name */
+export function listProfiles(): { default_profile: string; profiles: Record<string, ProfileConfig> } {
+  const file = readConfigFile();
+  return {
+    default_profile: file.default_profile ?? DEFAULT_PROFILE,
+    profiles: file.profiles ?? {},
+  };
+}
+
+/** Remove a stored profile. Returns false if it did not exist. */
+export function removeProfile(name: string): boolean {
+  const file = readConfigFile();
+  if (!file.profiles?.[name]) return false;
+
+  const profiles = { ...file.profiles };
+  delete profiles[name];
+
+  let defaultProfile = file.default_profile;
+  if (defaultProfile === name) {
+    defaultProfile = Object.keys(profiles)[0];
+  }
+
+  writeConfigFile({ ...file, default_profile: defaultProfile, profiles });
+  return true;
+}
+
+/**
+ * Remove the access token, user ID and expiry from a profile (and the app ID and secret
+ * with `forgetApp`). Other settings such as `credential_command` are kept. Returns false
+ * if the profile did not exist.
+ */
+export function clearCredentials(name: string, options?: { forgetApp?: boolean }): boolean {
+  const file = readConfigFile();
+  const stored = file.profiles?.[name];
+  if (!stored) return false;
+
+  const kept: ProfileConfig = { ...stored };
+  const keys: Array<keyof ProfileConfig> = ["access_token", "user_id", "expires_at"];
+  if (options?.forgetApp) keys.push("app_id", "app_secret");
+  for (const key of keys) delete kept[key];
+  writeConfigFile({ ...file, profiles: { ...file.profiles, [name]: kept } });
+  return true;
+}
+
+/** Set the profile used when neither --profile nor THRD_PROFILE is given */
+export function setDefaultProfile(name: string): void {
+  const file = readConfigFile();
+  if (!file.profiles?.[name]) {
+    throw new Error(`Profile '${name}' not found. Run 'thrd accounts list' to see available profiles.`);
+  }
+  writeConfigFile({ ...file, default_profile: name });
 }
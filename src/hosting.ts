@@ -0,0 +1,364 @@
+import { createHash, createHmac, randomBytes } from "crypto";
+import { exec } from "child_process";
+import { existsSync, readFileSync, statSync } from "fs";
+import { basename, extname, resolve } from "path";
+import type { FetchLike } from "./client/transport.js";
+
+/** Upload local files to an S3-compatible bucket (AWS, R2, MinIO, ...) */
+export interface S3HostingConfig {
+  type: "s3";
+  bucket: string;
+  region?: string;
+  /** Custom endpoint, e.g. https://<account>.r2.cloudflarestorage.com or http://localhost:9000 */
+  endpoint?: string;
+  /** Use https://endpoint/bucket/key instead of https://bucket.endpoint/key */
+  path_style?: boolean;
+  access_key_id?: string;
+  secret_access_key?: string;
+  /** Key prefix, e.g. "threads/" */
+  prefix?: string;
+  /** Public base URL objects are served from (defaults to the object URL) */
+  public_url?: string;
+  /** Canned ACL, e.g. "public-read" */
+  acl?: string;
+}
+
+/** Upload local files with a plain HTTP PUT */
+export interface HttpHostingConfig {
+  type: "http";
+  /** Upload URL; `{name}` is replaced with a unique object name */
+  upload_url: string;
+  /** Public URL template; `{name}` is replaced. Defaults to the upload URL or a `url` field in the JSON response */
+  public_url?: string;
+  method?: "PUT" | "POST";
+  headers?: Record<string, string>;
+}
+
+/** Upload local files by running a shell command that prints the public URL */
+export interface CommandHostingConfig {
+  type: "command";
+  /** Command to run; `{file}` is replaced with the quoted path (appended if absent) */
+  upload_command: string;
+  /** Optional cleanup command; `{url}` is replaced with the quoted public URL */
+  delete_command?: string;
+}
+
+export type MediaHostingConfig = (S3HostingConfig | HttpHostingConfig | CommandHostingConfig) & {
+  /** Delete the uploaded object once its container reports FINISHED */
+  delete_after_publish?: boolean;
+};
+
+export interface UploadedMedia {
+  url: string;
+  remove?: () => Promise<void>;
+}
+
+export interface MediaHost {
+  upload(filePath: string): Promise<UploadedMedia>;
+}
+
+export interface MediaHostOptions {
+  /** Fetch used by the s3 and http adapters. Default: global fetch */
+  fetch?: FetchLike;
+}
+
+export interface MediaUploadSessionOptions extends MediaHostOptions {
+  /** Called when deleting an uploaded object fails */
+  onCleanupError?: (url: string, err: Error) => void;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".mp4": "video/mp4",
+  ".mov": "video/quicktime",
+};
+
+/** True if the value is a local path rather than an http(s) URL */
+export function isLocalMedia(value: string): boolean {
+  return !/^https?:\/\//i.test(value);
+}
+
+function contentTypeFor(filePath: string): string {
+  return CONTENT_TYPES[extname(filePath).toLowerCase()] ?? "application/octet-stream";
+}
+
+/** Unique, URL-safe object name that keeps the original extension */
+function objectName(filePath: string): string {
+  const base = basename(filePath).replace(/[^A-Za-z0-9._-]/g, "_");
+  return `${Date.now()}-${randomBytes(4).toString("hex")}-${base}`;
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+/** Encode an S3 key per SigV4 rules (each segment encoded, slashes kept) */
+function encodeKey(key: string): string {
+  return key.split("/").map((s) => encodeURIComponent(s).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)).join("/");
+}
+
+export interface S3SigningInput {
+  method: string;
+  url: URL;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Additional headers to sign and send */
+  headers?: Record<string, string>;
+  body?: Buffer;
+  /** Signing time. Default: now */
+  date?: Date;
+}
+
+/** Sign an S3 request with AWS Signature Version 4, returning the headers to send (except `host`) */
+export function signS3Request(input: S3SigningInput): Record<string, string> {
+  const { method, url, region } = input;
+  const amzDate = (input.date ?? new Date()).toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = sha256Hex(input.body ?? "");
+
+  const headers: Record<string, string> = {
+    host: url.host,
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate,
+    ...Object.fromEntries(Object.entries(input.headers ?? {}).map(([k, v]) => [k.toLowerCase(), v])),
+  };
+  const signedHeaders = Object.keys(headers).sort();
+  const canonicalQuery = [...url.searchParams]
+    .map(([k, v]) => `${encodeKey(k)}=${encodeKey(v)}`)
+    .sort()
+    .join("&");
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    canonicalQuery,
+    ...signedHeaders.map((h) => `${h}:${headers[h].trim()}`),
+    "",
+    signedHeaders.join(";"),
+    payloadHash,
+  ].join("\n");
+
+  const scope = `${dateStamp}/${region}/s3/aws4_request`;
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+  const signingKey = ["s3", "aws4_request"].reduce<Buffer>(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${input.secretAccessKey}`, dateStamp), region),
+  );
+  const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+  const { host: _host, ...sendHeaders } = headers;
+  return {
+    ...sendHeaders,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${input.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(";")}, Signature=${signature}`,
+  };
+}
+
+function createS3Host(config: S3HostingConfig, fetchImpl: FetchLike): MediaHost {
+  const region = config.region ?? "us-east-1";
+  const accessKeyId = config.access_key_id ?? process.env.AWS_ACCESS_KEY_ID;
+  const secretAccessKey = config.secret_access_key ?? process.env.AWS_SECRET_ACCESS_KEY;
+  if (!accessKeyId || !secretAccessKey) {
+    throw new Error("S3 media hosting requires access_key_id/secret_access_key (or AWS_ACCESS_KEY_ID/AWS_SECRET_ACCESS_KEY).");
+  }
+
+  const endpoint = new URL(config.endpoint ?? `https://s3.${region}.amazonaws.com`);
+  const objectUrl = (key: string): URL => {
+    const path = encodeKey(key);
+    if (config.path_style) {
+      return new URL(`${endpoint.origin}/${config.bucket}/${path}`);
+    }
+    return new URL(`${endpoint.protocol}//${config.bucket}.${endpoint.host}/${path}`);
+  };
+
+  /** Send a SigV4-signed request for a single object */
+  const send = async (method: "PUT" | "DELETE", url: URL, body?: Buffer, extraHeaders: Record<string, string> = {}) => {
+    const res = await fetchImpl(url, {
+      method,
+      headers: signS3Request({ method, url, region, accessKeyId, secretAccessKey, headers: extraHeaders, body }),
+      body: body ? new Uint8Array(body) : undefined,
+    });
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`S3 ${method} ${url.pathname} failed (${res.status}): ${text.slice(0, 200)}`);
+    }
+  };
+
+  return {
+    async upload(filePath) {
+      const key = `${config.prefix ?? ""}${objectName(filePath)}`;
+      const url = objectUrl(key);
+      const headers: Record<string, string> = { "content-type": contentTypeFor(filePath) };
+      if (config.acl) headers["x-amz-acl"] = config.acl;
+      await send("PUT", url, readFileSync(filePath), headers);
+
+      const publicUrl = config.public_url
+        ? `${config.public_url.replace(/\/$/, "")}/${encodeKey(key)}`
+        : url.toString();
+      return { url: publicUrl, remove: () => send("DELETE", url) };
+    },
+  };
+}
+
+function createHttpHost(config: HttpHostingConfig, fetchImpl: FetchLike): MediaHost {
+  return {
+    async upload(filePath) {
+      const name = objectName(filePath);
+      const uploadUrl = config.upload_url.replace("{name}", encodeURIComponent(name));
+      const res = await fetchImpl(uploadUrl, {
+        method: config.method ?? "PUT",
+        headers: { "Content-Type": contentTypeFor(filePath), ...config.headers },
+        body: new Uint8Array(readFileSync(filePath)),
+      });
+      const text = await res.text();
+      if (!res.ok) {
+        throw new Error(`Media upload to ${uploadUrl} failed (${res.status}): ${text.slice(0, 200)}`);
+      }
+
+      let url = config.public_url?.replace("{name}", encodeURIComponent(name));
+      if (!url) {
+        try {
+          url = (JSON.parse(text) as { url?: string }).url;
+        } catch { /* not JSON */ }
+      }
+      url ??= uploadUrl;
+
+      return {
+        url,
+        remove: async () => {
+          const del = await fetchImpl(uploadUrl, { method: "DELETE", headers: config.headers });
+          if (!del.ok) throw new Error(`Media delete ${uploadUrl} failed (${del.status})`);
+        },
+      };
+    },
+  };
+}
+
+function runCommand(command: string): Promise<string> {
+  return new Promise((resolvePromise, reject) => {
+    exec(command, { maxBuffer: 1024 * 1024 }, (err, stdout, stderr) => {
+      if (err) {
+        reject(new Error(`Command failed: ${command}\n${stderr.trim() || err.message}`));
+        return;
+      }
+      resolvePromise(stdout);
+    });
+  });
+}
+
+function createCommandHost(config: CommandHostingConfig): MediaHost {
+  return {
+    async upload(filePath) {
+      const quoted = shellQuote(filePath);
+      const command = config.upload_command.includes("{file}")
+        ? config.upload_command.replaceAll("{file}", quoted)
+        : `${config.upload_command} ${quoted}`;
+      const lines = (await runCommand(command)).split("\n").map((l) => l.trim()).filter(Boolean);
+      const url = lines[lines.length - 1];
+      if (!url || isLocalMedia(url)) {
+        throw new Error(`Upload command did not print a URL: ${command}`);
+      }
+
+      const deleteCommand = config.delete_command;
+      return {
+        url,
+        remove: deleteCommand
+          ? async () => { await runCommand(deleteCommand.replaceAll("{url}", shellQuote(url))); }
+          : undefined,
+      };
+    },
+  };
+}
+
+/** Create an adapter from the `media_hosting` config section */
+export function createMediaHost(config: MediaHostingConfig, options: MediaHostOptions = {}): MediaHost {
+  const fetchImpl: FetchLike = options.fetch ?? ((input, init) => fetch(input, init));
+  switch (config.type) {
+    case "s3": return createS3Host(config, fetchImpl);
+    case "http": return createHttpHost(config, fetchImpl);
+    case "command": return createCommandHost(config);
+    default:
+      throw new Error(`Unknown media_hosting type '${(config as { type?: string }).type}'. Use s3, http, or command.`);
+  }
+}
+
+/**
+ * Resolves media references for one publish operation: URLs pass through,
+ * local paths are uploaded through the configured host. Uploaded objects can
+ * be released (deleted) once their container has finished processing.
+ * Releasing is best-effort: a failed delete goes to `onCleanupError` and never
+ * stops the publish.
+ */
+export class MediaUploadSession {
+  private config: MediaHostingConfig | undefined;
+  private baseDir: string;
+  private options: MediaUploadSessionOptions;
+  private host: MediaHost | undefined;
+  private uploads = new Map<string, UploadedMedia>();
+
+  constructor(
+    config: MediaHostingConfig | undefined,
+    baseDir = process.cwd(),
+    options: MediaUploadSessionOptions = {},
+  ) {
+    this.config = config;
+    this.baseDir = baseDir;
+    this.options = options;
+  }
+
+  /** Return a public URL for `ref`, uploading it first if it is a local file */
+  public async resolve(ref: string): Promise<string>;
+  public async resolve(ref: string | undefined): Promise<string | undefined>;
+  public async resolve(ref: string | undefined): Promise<string | undefined> {
+    if (!ref || !isLocalMedia(ref)) return ref;
+
+    const path = resolve(this.baseDir, ref.replace(/^file:\/\//, ""));
+    if (!existsSync(path) || !statSync(path).isFile()) {
+      throw new Error(`Media file not found: ${path}`);
+    }
+    if (!this.config) {
+      throw new Error(
+        `'${ref}' is a local file, but no media hosting is configured.\n` +
+        `Add a "media_hosting" section to ~/.config/thrd-cli/config.json (s3, http, or command).`,
+      );
+    }
+
+    this.host ??= createMediaHost(this.config, this.options);
+    const uploaded = await this.host.upload(path);
+    this.uploads.set(uploaded.url, uploaded);
+    return uploaded.url;
+  }
+
+  /** Delete an uploaded object if delete_after_publish is enabled */
+  public async release(url: string | undefined): Promise<void> {
+    if (!url) return;
+    const uploaded = this.uploads.get(url);
+    if (!uploaded) return;
+    this.uploads.delete(url);
+    if (this.config?.delete_after_publish && uploaded.remove) {
+      try {
+        await uploaded.remove();
+      } catch (err) {
+        this.options.onCleanupError?.(url, err as Error);
+      }
+    }
+  }
+
+  /** Release every remaining upload (e.g. after a failed publish) */
+  public async releaseAll(): Promise<void> {
+    for (const url of [...this.uploads.keys()]) {
+      await this.release(url);
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import type { ThreadsClient } from "./client/index.js";
+import { getUserThreads } from "./client/posts.js";
+import { getConversation } from "./client/replies.js";
+import { collectPages } from "./client/pagination.js";
+import type { ThreadsPost } from "./client/types.js";
+import { readState, withLock, writeState } from "./state.js";
+
+const INBOX_FILE = "inbox.json";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Read markers older than this are dropped when the state file is rewritten */
+const READ_RETENTION_DAYS = 90;
+
+interface InboxState {
+  profiles: Record<string, { read: Record<string, string> }>;
+}
+
+export interface InboxItem {
+  id: string;
+  /** Our top-level post the conversation belongs to */
+  thread_id: string;
+  thread_text: string | null;
+  /** Post this item replies to (our post, our reply, or another reply) */
+  in_reply_to: string | null;
+  username: string | null;
+  text: string | null;
+  timestamp: string | null;
+  permalink: string | null;
+  hidden: boolean;
+  unread: boolean;
+  /** Whether we have replied directly to this item */
+  answered: boolean;
+}
+
+function loadState(): InboxState {
+  return readState<InboxState>(INBOX_FILE, { profiles: {} });
+}
+
+/** IDs of inbox items marked read for a profile */
+export function readMarkers(profile: string): Set<string> {
+  return new Set(Object.keys(loadState().profiles[profile]?.read ?? {}));
+}
+
+/** Mark inbox items as read; returns the IDs that were not already marked */
+export async function markRead(profile: string, ids: string[], now = new Date()): Promise<string[]> {
+  return withLock(INBOX_FILE, () => {
+    const state = loadState();
+    const read = state.profiles[profile]?.read ?? {};
+    const cutoff = now.getTime() - READ_RETENTION_DAYS * DAY_MS;
+    for (const [id, at] of Object.entries(read)) {
+      if (Date.parse(at) < cutoff) delete read[id];
+    }
+
+    const added = ids.filter((id) => !read[id]);
+    for (const id of added) read[id] = now.toISOString();
+    state.profiles[profile] = { read };
+    writeState(INBOX_FILE, state);
+    return added;
+  });
+}
+
+/**
+ * Gather replies from other users to our recent threads (published in the last
+ * `days` days, up to `maxPosts`), including nested conversation replies, newest first.
+ * Our own replies are excluded but used to mark items as answered.
+ */
+export async function collectInbox(
+  client: ThreadsClient,
+  options: { profile: string; days?: number; maxPosts?: number; maxReplies?: number; now?: Date },
+): Promise<InboxItem[]> {
+  const nowSec = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  const since = nowSec - (options.days ?? 7) * 86_400;
+
+  const recent = await collectPages(client, (c, params) => getUserThreads(c, { ...params, since, until: nowSec }), {
+    max: options.maxPosts ?? 20,
+    pageSize: 50,
+  });
+
+  const read = readMarkers(options.profile);
+  const items: InboxItem[] = [];
+  for (const post of recent.data) {
+    const conversation = await collectPages(client, (c, params) => getConversation(c, post.id, params), {
+      max: options.maxReplies ?? 100,
+      pageSize: 100,
+    });
+    const own = (r: ThreadsPost) => Boolean(post.username) && r.username === post.username;
+    const answered = new Set(conversation.data.filter(own).map((r) => r.replied_to?.id).filter(Boolean));
+
+    for (const reply of conversation.data) {
+      if (own(reply)) continue;
+      items.push({
+        id: reply.id,
+        thread_id: reply.root_post?.id ?? post.id,
+        thread_text: post.text ?? null,
+        in_reply_to: reply.replied_to?.id ?? null,
+        username: reply.username ?? null,
+        text: reply.text ?? null,
+        timestamp: reply.timestamp ?? null,
+        permalink: reply.permalink ?? null,
+        hidden: reply.hide_status === "HIDDEN",
+        unread: !read.has(reply.id),
+        answered: answered.has(reply.id),
+      });
+    }
+  }
+
+  return items.sort((a, b) => (b.timestamp ?? "").localeCompare(a.timestamp ?? ""));
+}
@@ -0,0 +1,332 @@
+import { createHash, randomBytes } from "crypto";
+import { hostname } from "os";
+import type { ThreadsClient } from "./client/index.js";
+import {
+  getContainerStatus,
+  publishWhenReady,
+  type ContainerCreatedHandler,
+  type ContainerPublishedHandler,
+} from "./client/posts.js";
+import type { ContainerStatus, MediaContainer, MediaType } from "./client/types.js";
+import { readState, withLock, writeState } from "./state.js";
+
+const JOURNAL_FILE = "containers.json";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Threads expires containers that are not published within 24 hours */
+export const CONTAINER_TTL_HOURS = 24;
+
+/** Records older than this are dropped when the journal is rewritten */
+const RETENTION_DAYS = 30;
+
+/** Claims from another host older than this are assumed to belong to a crashed run */
+const CLAIM_STALE_MS = HOUR_MS;
+
+/** Local view of a container: `created` until we publish it or its status says otherwise */
+export type ContainerState = "created" | "published" | "failed" | "expired";
+
+export interface ContainerRecord {
+  id: string;
+  profile: string;
+  media_type: MediaType;
+  state: ContainerState;
+  created_at: string;
+  updated_at: string;
+  media_url?: string;
+  is_carousel_item?: boolean;
+  children?: string[];
+  /** SHA-256 of the command payload (top-level containers only) */
+  payload_hash?: string;
+  idempotency_key?: string;
+  published_id?: string;
+  /** Last status reported by the API, and when it was checked */
+  remote_status?: ContainerStatus;
+  checked_at?: string;
+  error?: string;
+}
+
+interface IdempotencyRecord {
+  payload_hash: string;
+  created_at: string;
+  /** Top-level container created for this key */
+  container_id?: string;
+  published_id?: string;
+  /** `host:pid:nonce` of the run currently publishing under this key */
+  claimed_by?: string;
+  claimed_at?: string;
+}
+
+interface JournalState {
+  containers: Record<string, ContainerRecord>;
+  keys: Record<string, Record<string, IdempotencyRecord>>;
+}
+
+function loadJournal(): JournalState {
+  return readState<JournalState>(JOURNAL_FILE, { containers: {}, keys: {} });
+}
+
+/** Read-modify-write the journal under its lock, pruning old records */
+async function updateJournal<T>(fn: (journal: JournalState) => T): Promise<T> {
+  return withLock(JOURNAL_FILE, () => {
+    const journal = loadJournal();
+    const result = fn(journal);
+    const cutoff = Date.now() - RETENTION_DAYS * 24 * HOUR_MS;
+    for (const [id, record] of Object.entries(journal.containers)) {
+      if (Date.parse(record.updated_at) < cutoff) delete journal.containers[id];
+    }
+    for (const keys of Object.values(journal.keys)) {
+      for (const [key, record] of Object.entries(keys)) {
+        if (Date.parse(record.created_at) < cutoff) delete keys[key];
+      }
+    }
+    writeState(JOURNAL_FILE, journal);
+    return result;
+  });
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/** True while the run that claimed an idempotency key may still be publishing */
+function isClaimActive(record: IdempotencyRecord): boolean {
+  if (!record.claimed_by) return false;
+  const [host, pid] = record.claimed_by.split(":");
+  if (host !== hostname()) return Date.now() - Date.parse(record.claimed_at ?? "") < CLAIM_STALE_MS;
+  try {
+    process.kill(Number(pid), 0);
+    return true;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/** SHA-256 of a payload, independent of key order and undefined values */
+export function payloadHash(payload: Record<string, unknown>): string {
+  return createHash("sha256").update(stableStringify(payload)).digest("hex");
+}
+
+/** When a container created at `createdAt` expires */
+export function containerExpiresAt(record: Pick<ContainerRecord, "created_at">): string {
+  return new Date(Date.parse(record.created_at) + CONTAINER_TTL_HOURS * HOUR_MS).toISOString();
+}
+
+/** Journal records for a profile, newest first (default: only unpublished, unexpired top-level ones) */
+export function listContainers(profile: string, options?: { all?: boolean; now?: Date }): ContainerRecord[] {
+  const now = (options?.now ?? new Date()).getTime();
+  return Object.values(loadJournal().containers)
+    .filter((record) => record.profile === profile)
+    .filter((record) => options?.all || (
+      !record.is_carousel_item
+      && (record.state === "created" || record.state === "failed")
+      && Date.parse(containerExpiresAt(record)) > now
+    ))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+export function getContainerRecord(id: string): ContainerRecord | undefined {
+  return loadJournal().containers[id];
+}
+
+/**
+ * Hooks for createPost/createCarouselPost/createThreadChain that record every
+ * container as it is created and mark it published afterwards. `meta` is stored
+ * on top-level containers (not carousel items).
+ */
+export function journalHooks(
+  profile: string,
+  meta?: { payload_hash?: string; idempotency_key?: string },
+): { onContainerCreated: ContainerCreatedHandler; onContainerPublished: ContainerPublishedHandler } {
+  return {
+    onContainerCreated: (container) => updateJournal((journal) => {
+      const now = new Date().toISOString();
+      const record: ContainerRecord = {
+        id: container.id,
+        profile,
+        media_type: container.media_type,
+        state: "created",
+        created_at: now,
+        updated_at: now,
+        media_url: container.media_url,
+        is_carousel_item: container.is_carousel_item,
+        children: container.children,
+      };
+      if (!container.is_carousel_item && meta) {
+        record.payload_hash = meta.payload_hash;
+        record.idempotency_key = meta.idempotency_key;
+        const key = meta.idempotency_key ? journal.keys[profile]?.[meta.idempotency_key] : undefined;
+        if (key) key.container_id = container.id;
+      }
+      journal.containers[container.id] = record;
+    }),
+    onContainerPublished: (container, post) => markPublished(container.id, post.id),
+  };
+}
+
+/** Record a container (and its carousel items and idempotency key) as published */
+async function markPublished(containerId: string, postId?: string): Promise<void> {
+  await updateJournal((journal) => {
+    const now = new Date().toISOString();
+    const record = journal.containers[containerId];
+    if (!record) return;
+    Object.assign(record, { state: "published", remote_status: "PUBLISHED", updated_at: now, error: undefined });
+    if (postId) record.published_id = postId;
+    for (const child of record.children ?? []) {
+      const item = journal.containers[child];
+      if (item) Object.assign(item, { state: "published", updated_at: now });
+    }
+    const key = record.idempotency_key ? journal.keys[record.profile]?.[record.idempotency_key] : undefined;
+    if (key && postId) key.published_id = postId;
+  });
+}
+
+/** Keep the error of a failed attempt; the container stays `created` until its status is checked */
+async function noteError(containerId: string, error: string): Promise<void> {
+  await updateJournal((journal) => {
+    const record = journal.containers[containerId];
+    if (record) Object.assign(record, { error, updated_at: new Date().toISOString() });
+  });
+}
+
+const STATE_FOR_STATUS: Partial<Record<ContainerStatus, ContainerState>> = {
+  PUBLISHED: "published",
+  ERROR: "failed",
+  EXPIRED: "expired",
+};
+
+/** Fetch a container's status from the API and store it in the journal (if journaled) */
+export async function refreshContainer(
+  client: ThreadsClient,
+  id: string,
+): Promise<{ remote: MediaContainer; record?: ContainerRecord }> {
+  const remote = await getContainerStatus(client, id);
+  const record = await updateJournal((journal) => {
+    const stored = journal.containers[id];
+    if (!stored) return undefined;
+    stored.remote_status = remote.status;
+    stored.checked_at = new Date().toISOString();
+    const state = remote.status ? STATE_FOR_STATUS[remote.status] : undefined;
+    if (state && stored.state !== "published") stored.state = state;
+    if (remote.error_message) stored.error = remote.error_message;
+    stored.updated_at = stored.checked_at;
+    return { ...stored };
+  });
+  return { remote, record };
+}
+
+/**
+ * Publish a container created earlier (e.g. left behind by a crash): waits until it
+ * has finished processing, publishes it, and updates the journal.
+ */
+export async function publishContainerRecord(client: ThreadsClient, id: string): Promise<{ id: string }> {
+  const record = getContainerRecord(id);
+  if (record?.is_carousel_item) throw new Error(`${id} is a carousel item; publish its carousel container instead.`);
+  if (record?.published_id) throw new Error(`Container ${id} was already published as ${record.published_id}.`);
+  try {
+    const post = await publishWhenReady(client, id);
+    await markPublished(id, post.id);
+    return post;
+  } catch (err) {
+    await noteError(id, (err as Error).message);
+    throw err;
+  }
+}
+
+export interface JournaledResult {
+  id: string;
+  /** `published`: the key's earlier post was returned; `resumed`: its leftover container was published */
+  idempotent?: "published" | "resumed";
+}
+
+/**
+ * Run `create` with journal hooks. With an idempotency key, a retry with the same
+ * payload returns the earlier post, or publishes the container the earlier attempt
+ * left behind; the same key with a different payload is an error.
+ *
+ * The key is claimed under the journal lock before anything is created, so a
+ * concurrent run with the same key fails instead of posting twice. A claim left
+ * by a crashed run is taken over.
+ */
+export async function publishJournaled(
+  client: ThreadsClient,
+  options: { profile: string; payload: Record<string, unknown>; idempotencyKey?: string },
+  create: (hooks: ReturnType<typeof journalHooks>) => Promise<{ id: string }>,
+): Promise<JournaledResult> {
+  const { profile, idempotencyKey } = options;
+  const hash = payloadHash(options.payload);
+
+  if (!idempotencyKey) return createJournaled(profile, hash, undefined, create);
+
+  const claim = `${hostname()}:${process.pid}:${randomBytes(4).toString("hex")}`;
+  const existing = await updateJournal((journal) => {
+    const keys = journal.keys[profile] ??= {};
+    const record = keys[idempotencyKey];
+    if (record && record.payload_hash !== hash) {
+      throw new Error(`Idempotency key '${idempotencyKey}' was already used with a different payload.`);
+    }
+    if (record?.published_id) return { ...record };
+    if (record && isClaimActive(record)) {
+      throw new Error(`Idempotency key '${idempotencyKey}' is being published by another run (${record.claimed_by}).`);
+    }
+    const claimed = keys[idempotencyKey] = record ?? { payload_hash: hash, created_at: new Date().toISOString() };
+    Object.assign(claimed, { claimed_by: claim, claimed_at: new Date().toISOString() });
+    return record ? { ...record } : undefined;
+  });
+  if (existing?.published_id) return { id: existing.published_id, idempotent: "published" };
+
+  try {
+    if (existing?.container_id) {
+      const status = (await getContainerStatus(client, existing.container_id)).status;
+      if (status === "PUBLISHED") {
+        await markPublished(existing.container_id);
+        throw new Error(
+          `Container ${existing.container_id} for idempotency key '${idempotencyKey}' was already published, but its post ID was not recorded.`,
+        );
+      }
+      if (status === "IN_PROGRESS" || status === "FINISHED") {
+        return { ...(await publishContainerRecord(client, existing.container_id)), idempotent: "resumed" };
+      }
+      // ERROR or EXPIRED: start over with a new container
+      await refreshContainer(client, existing.container_id);
+    }
+    return await createJournaled(profile, hash, idempotencyKey, create);
+  } finally {
+    await updateJournal((journal) => {
+      const record = journal.keys[profile]?.[idempotencyKey];
+      if (record?.claimed_by === claim) {
+        delete record.claimed_by;
+        delete record.claimed_at;
+      }
+    });
+  }
+}
+
+async function createJournaled(
+  profile: string,
+  hash: string,
+  idempotencyKey: string | undefined,
+  create: (hooks: ReturnType<typeof journalHooks>) => Promise<{ id: string }>,
+): Promise<JournaledResult> {
+  const hooks = journalHooks(profile, { payload_hash: hash, idempotency_key: idempotencyKey });
+  let topLevel: string | undefined;
+  try {
+    return await create({
+      ...hooks,
+      onContainerCreated: async (container) => {
+        await hooks.onContainerCreated(container);
+        if (!container.is_carousel_item) topLevel = container.id;
+      },
+    });
+  } catch (err) {
+    if (topLevel) await noteError(topLevel, (err as Error).message);
+    throw err;
+  }
+}
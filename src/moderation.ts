@@ -0,0 +1,206 @@
+import { randomBytes } from "crypto";
+import { existsSync, readFileSync } from "fs";
+import type { ThreadsClient } from "./client/index.js";
+import { hideReply, unhideReply } from "./client/replies.js";
+import { collectInbox, type InboxItem } from "./inbox.js";
+import { appendStateLines, getStatePath, readStateLines, withLock } from "./state.js";
+
+const RULES_FILE = "moderation.json";
+const AUDIT_FILE = "moderation-log.ndjson";
+
+/**
+ * Moderation rules (JSON). A reply is hidden when its author is denied, its text
+ * contains a keyword or matches a pattern, or it is link-only (if enabled).
+ * Allowed users are never hidden; replies older than `max_age_hours` are left alone.
+ */
+export interface ModerationRules {
+  /** Case-insensitive substrings */
+  keywords?: string[];
+  /** Regular expressions (case-insensitive) */
+  patterns?: string[];
+  /** Usernames whose replies are always hidden */
+  deny_users?: string[];
+  /** Usernames whose replies are never hidden */
+  allow_users?: string[];
+  /** Hide replies whose text is nothing but links */
+  link_only?: boolean;
+  /** Only evaluate replies at most this many hours old */
+  max_age_hours?: number;
+}
+
+export interface ModerationMatch {
+  item: InboxItem;
+  /** Which rules matched, e.g. `keyword:free followers`, `deny_user`, `link_only` */
+  reasons: string[];
+}
+
+export interface AuditEntry {
+  run_id: string;
+  at: string;
+  profile: string;
+  action: "hide" | "unhide";
+  reply_id: string;
+  thread_id: string;
+  username: string | null;
+  text: string | null;
+  reasons: string[];
+  ok: boolean;
+  error?: string;
+  /** For `unhide` entries written by `undoRun`: the run being undone */
+  undoes?: string;
+}
+
+/** Default rules file path (~/.config/thrd-cli/moderation.json) */
+export function defaultRulesPath(): string {
+  return getStatePath(RULES_FILE);
+}
+
+/** Load and validate a rules file */
+export function loadRules(path = defaultRulesPath()): ModerationRules {
+  if (!existsSync(path)) throw new Error(`No moderation rules at ${path}. Create it or pass --rules <file>.`);
+  let rules: ModerationRules;
+  try {
+    rules = JSON.parse(readFileSync(path, "utf-8")) as ModerationRules;
+  } catch (err) {
+    throw new Error(`Failed to parse ${path}: ${(err as Error).message}`);
+  }
+  for (const key of ["keywords", "patterns", "deny_users", "allow_users"] as const) {
+    if (rules[key] !== undefined && !Array.isArray(rules[key])) throw new Error(`${path}: "${key}" must be an array of strings.`);
+  }
+  for (const pattern of rules.patterns ?? []) {
+    try {
+      new RegExp(pattern, "i");
+    } catch (err) {
+      throw new Error(`${path}: invalid pattern ${JSON.stringify(pattern)}: ${(err as Error).message}`);
+    }
+  }
+  return rules;
+}
+
+const LINK_RE = /(?:https?:\/\/|www\.)\S+/gi;
+
+function normalizeUsername(name: string): string {
+  return name.replace(/^@/, "").toLowerCase();
+}
+
+/** Rules a reply matches (empty if it should stay visible) */
+export function evaluateReply(item: InboxItem, rules: ModerationRules, now = new Date()): string[] {
+  const username = normalizeUsername(item.username ?? "");
+  if (rules.allow_users?.some((u) => normalizeUsername(u) === username)) return [];
+  if (rules.max_age_hours !== undefined && item.timestamp) {
+    if (now.getTime() - Date.parse(item.timestamp) > rules.max_age_hours * 3_600_000) return [];
+  }
+
+  const reasons: string[] = [];
+  const text = item.text ?? "";
+  const lower = text.toLowerCase();
+  if (rules.deny_users?.some((u) => normalizeUsername(u) === username)) reasons.push("deny_user");
+  for (const keyword of rules.keywords ?? []) {
+    if (lower.includes(keyword.toLowerCase())) reasons.push(`keyword:${keyword}`);
+  }
+  for (const pattern of rules.patterns ?? []) {
+    if (new RegExp(pattern, "i").test(text)) reasons.push(`pattern:${pattern}`);
+  }
+  if (rules.link_only) {
+    const withoutLinks = text.replace(LINK_RE, "");
+    if (withoutLinks !== text && !withoutLinks.replace(/[\s\p{P}]/gu, "")) reasons.push("link_only");
+  }
+  return reasons;
+}
+
+/** Visible replies to our recent threads that match the rules */
+export async function findMatches(
+  client: ThreadsClient,
+  rules: ModerationRules,
+  options: { profile: string; days?: number; maxPosts?: number; now?: Date },
+): Promise<ModerationMatch[]> {
+  const items = await collectInbox(client, options);
+  return items
+    .filter((item) => !item.hidden)
+    .map((item) => ({ item, reasons: evaluateReply(item, rules, options.now) }))
+    .filter((match) => match.reasons.length > 0);
+}
+
+/**
+ * Hide matching replies via `hideReply` and append every action to the audit log
+ * (~/.config/thrd-cli/moderation-log.ndjson). With `dryRun`, nothing is hidden or logged.
+ */
+export async function moderate(
+  client: ThreadsClient,
+  rules: ModerationRules,
+  options: {
+    profile: string;
+    days?: number;
+    maxPosts?: number;
+    dryRun?: boolean;
+    now?: Date;
+    onAction?: (entry: AuditEntry) => void;
+  },
+): Promise<{ run_id: string; matches: ModerationMatch[]; actions: AuditEntry[] }> {
+  const runId = randomBytes(4).toString("hex");
+  const matches = await findMatches(client, rules, options);
+  const actions: AuditEntry[] = [];
+  if (options.dryRun) return { run_id: runId, matches, actions };
+
+  for (const { item, reasons } of matches) {
+    const entry: AuditEntry = {
+      run_id: runId,
+      at: new Date().toISOString(),
+      profile: options.profile,
+      action: "hide",
+      reply_id: item.id,
+      thread_id: item.thread_id,
+      username: item.username,
+      text: item.text,
+      reasons,
+      ok: false,
+    };
+    try {
+      entry.ok = await hideReply(client, item.id);
+    } catch (err) {
+      entry.error = (err as Error).message;
+    }
+    await withLock(AUDIT_FILE, () => appendStateLines(AUDIT_FILE, [entry]));
+    actions.push(entry);
+    options.onAction?.(entry);
+  }
+  return { run_id: runId, matches, actions };
+}
+
+/** Audit log entries for a profile, oldest first */
+export function readAuditLog(profile: string): AuditEntry[] {
+  return readStateLines<AuditEntry>(AUDIT_FILE).filter((e) => e.profile === profile);
+}
+
+/**
+ * Unhide every reply a moderation run hid (default: the profile's latest run that
+ * hid something and has not been undone), logging each `unhide` with `undoes`.
+ */
+export async function undoRun(
+  client: ThreadsClient,
+  options: { profile: string; runId?: string; onAction?: (entry: AuditEntry) => void },
+): Promise<{ run_id: string; undone: string; actions: AuditEntry[] }> {
+  const log = readAuditLog(options.profile);
+  const undoneRuns = new Set(log.map((e) => e.undoes).filter(Boolean));
+  const target = options.runId
+    ?? log.filter((e) => e.action === "hide" && e.ok && !undoneRuns.has(e.run_id)).pop()?.run_id;
+  if (!target) throw new Error("No moderation run to undo.");
+
+  const hidden = log.filter((e) => e.run_id === target && e.action === "hide" && e.ok);
+  if (!hidden.length) throw new Error(`Moderation run ${target} did not hide any replies.`);
+
+  const runId = randomBytes(4).toString("hex");
+  const actions: AuditEntry[] = [];
+  for (const hide of hidden) {
+    const entry: AuditEntry = { ...hide, run_id: runId, at: new Date().toISOString(), action: "unhide", ok: false, error: undefined, undoes: target };
+    try {
+      entry.ok = await unhideReply(client, hide.reply_id);
+    } catch (err) {
+      entry.error = (err as Error).message;
+    }
+    await withLock(AUDIT_FILE, () => appendStateLines(AUDIT_FILE, [entry]));
+    actions.push(entry);
+    options.onAction?.(entry);
+  }
+  return { run_id: runId, undone: target, actions };
+}
@@ -0,0 +1,330 @@
+export const OUTPUT_FORMATS = ["table", "csv", "ndjson", "yaml", "json", "template"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export interface OutputOptions {
+  format: OutputFormat;
+  /** Columns/keys to include; dotted paths reach into nested objects (e.g. `values.0.value`) */
+  fields?: string[];
+  /** Line template for the `template` format, e.g. `{{id}} {{permalink}}` */
+  template?: string;
+  /** Table width in columns. Default: terminal width */
+  width?: number;
+}
+
+const DEFAULT_TABLE_WIDTH = 120;
+const MIN_COLUMN_WIDTH = 4;
+const COLUMN_GAP = "  ";
+const ELLIPSIS = "…";
+
+/** Validate a `--format` value */
+export function parseOutputFormat(value: string): OutputFormat {
+  const format = value.toLowerCase() as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new Error(`Invalid format '${value}'. Use one of: ${OUTPUT_FORMATS.join(", ")}.`);
+  }
+  return format;
+}
+
+/** Split a `--fields` value into field paths */
+export function parseFields(value: string | undefined): string[] | undefined {
+  const fields = value?.split(",").map((f) => f.trim()).filter(Boolean);
+  return fields?.length ? fields : undefined;
+}
+
+/** Whether the format prints one line/row per record (as opposed to one document) */
+export function isRowFormat(format: OutputFormat): boolean {
+  return format !== "json" && format !== "yaml";
+}
+
+/** Read a dotted path (`a.b.0.c`) from a value */
+export function getField(value: unknown, path: string): unknown {
+  let current = value;
+  for (const key of path.split(".")) {
+    if (current === null || current === undefined || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/** Keep only the given fields of a record, keyed by their path */
+export function pickFields(record: unknown, fields: string[]): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const field of fields) result[field] = getField(record, field);
+  return result;
+}
+
+/** Union of top-level keys across records, in order of first appearance */
+function collectFields(records: unknown[]): string[] {
+  const fields = new Set<string>();
+  for (const record of records) {
+    if (record && typeof record === "object" && !Array.isArray(record)) {
+      for (const key of Object.keys(record)) fields.add(key);
+    } else {
+      fields.add("value");
+    }
+  }
+  return [...fields];
+}
+
+function cellValue(record: unknown, field: string): unknown {
+  if (record === null || typeof record !== "object") return field === "value" ? record : undefined;
+  return getField(record, field);
+}
+
+/** Scalar text for a cell: objects become compact JSON, null/undefined become empty */
+function stringify(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/** Replace `{{field}}` placeholders (dotted paths allowed); `\n` and `\t` are unescaped */
+export function renderTemplate(template: string, record: unknown): string {
+  return template
+    .replace(/\\n/g, "\n")
+    .replace(/\\t/g, "\t")
+    .replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_, path: string) => stringify(getField(record, path)));
+}
+
+function csvCell(value: unknown): string {
+  const text = stringify(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRow(record: unknown, fields: string[]): string {
+  return fields.map((f) => csvCell(cellValue(record, f))).join(",");
+}
+
+/** CSV (RFC 4180) with a header row */
+export function toCsv(records: unknown[], fields: string[]): string {
+  const lines = [fields.map(csvCell).join(",")];
+  for (const record of records) lines.push(csvRow(record, fields));
+  return lines.join("\n");
+}
+
+/** Terminal columns taken by a code point (CJK, Hangul and emoji are double width) */
+function charWidth(codePoint: number): number {
+  if (codePoint < 0x20 || (codePoint >= 0x300 && codePoint <= 0x36f) || codePoint === 0x200d || (codePoint >= 0xfe00 && codePoint <= 0xfe0f)) {
+    return 0;
+  }
+  if (
+    (codePoint >= 0x1100 && codePoint <= 0x115f) ||
+    (codePoint >= 0x2e80 && codePoint <= 0xa4cf) ||
+    (codePoint >= 0xac00 && codePoint <= 0xd7a3) ||
+    (codePoint >= 0xf900 && codePoint <= 0xfaff) ||
+    (codePoint >= 0xfe30 && codePoint <= 0xfe4f) ||
+    (codePoint >= 0xff00 && codePoint <= 0xff60) ||
+    (codePoint >= 0xffe0 && codePoint <= 0xffe6) ||
+    (codePoint >= 0x1f300 && codePoint <= 0x1faff) ||
+    (codePoint >= 0x20000 && codePoint <= 0x3fffd)
+  ) {
+    return 2;
+  }
+  return 1;
+}
+
+/** Display width of a string in terminal columns */
+export function displayWidth(text: string): number {
+  let width = 0;
+  for (const char of text) width += charWidth(char.codePointAt(0)!);
+  return width;
+}
+
+/** Cut text to at most `width` columns, ending with an ellipsis when shortened */
+function truncate(text: string, width: number): string {
+  if (displayWidth(text) <= width) return text;
+  let result = "";
+  let used = 0;
+  for (const char of text) {
+    const w = charWidth(char.codePointAt(0)!);
+    if (used + w > width - 1) break;
+    result += char;
+    used += w;
+  }
+  return result + ELLIPSIS;
+}
+
+function pad(text: string, width: number): string {
+  return text + " ".repeat(Math.max(0, width - displayWidth(text)));
+}
+
+/** Fit column widths into `maxWidth` by repeatedly shrinking the widest column */
+function fitColumns(widths: number[], maxWidth: number): number[] {
+  const result = [...widths];
+  const budget = maxWidth - COLUMN_GAP.length * (result.length - 1);
+  let total = result.reduce((a, b) => a + b, 0);
+  while (total > budget) {
+    const widest = result.indexOf(Math.max(...result));
+    if (result[widest] <= MIN_COLUMN_WIDTH) break;
+    result[widest]--;
+    total--;
+  }
+  return result;
+}
+
+function tableCells(record: unknown, fields: string[]): string[] {
+  return fields.map((f) => stringify(cellValue(record, f)).replace(/\s*[\r\n]+\s*/g, " "));
+}
+
+function tableLine(cells: string[], widths: number[]): string {
+  return cells
+    .map((c, i) => (i === cells.length - 1 ? truncate(c, widths[i]) : pad(truncate(c, widths[i]), widths[i])))
+    .join(COLUMN_GAP);
+}
+
+function tableWidths(header: string[], rows: string[][], width: number): number[] {
+  const natural = header.map((h, i) => Math.max(displayWidth(h), ...rows.map((r) => displayWidth(r[i]))));
+  return fitColumns(natural, width);
+}
+
+/** Aligned table sized to `width` columns; long cells are truncated and newlines flattened */
+export function toTable(records: unknown[], fields: string[], width = terminalWidth()): string {
+  const header = fields.map((f) => f.toUpperCase());
+  const rows = records.map((record) => tableCells(record, fields));
+  const widths = tableWidths(header, rows, width);
+  return [header, ...rows].map((cells) => tableLine(cells, widths)).join("\n");
+}
+
+/** Terminal width in columns (`COLUMNS` when stdout is not a TTY) */
+export function terminalWidth(): number {
+  return process.stdout.columns || parseInt(process.env.COLUMNS ?? "", 10) || DEFAULT_TABLE_WIDTH;
+}
+
+const YAML_PLAIN = /^[A-Za-z0-9_./+-][A-Za-z0-9_ ./@:+-]*$/;
+const YAML_RESERVED = /^(true|false|yes|no|on|off|null|~|-?\d+(\.\d+)?([eE][+-]?\d+)?)$/i;
+
+function yamlScalar(value: unknown): string {
+  if (value === null || value === undefined) return "null";
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  const text = String(value);
+  if (YAML_PLAIN.test(text) && !YAML_RESERVED.test(text) && !text.endsWith(" ") && !text.includes(": ") && !text.startsWith("- ")) {
+    return text;
+  }
+  // JSON strings are valid YAML double-quoted scalars
+  return JSON.stringify(text);
+}
+
+function yamlKey(key: string): string {
+  return YAML_PLAIN.test(key) && !YAML_RESERVED.test(key) ? key : JSON.stringify(key);
+}
+
+function isEmptyCollection(value: unknown): boolean {
+  return Array.isArray(value) ? value.length === 0 : Object.keys(value as object).length === 0;
+}
+
+function yamlLines(value: unknown, indent: string): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      if (item !== null && typeof item === "object" && !isEmptyCollection(item)) {
+        const [first, ...rest] = yamlLines(item, indent + "  ");
+        return [`${indent}- ${first.trimStart()}`, ...rest];
+      }
+      return [`${indent}- ${yamlInline(item)}`];
+    });
+  }
+  return Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .flatMap(([key, v]) => {
+      if (v !== null && typeof v === "object" && !isEmptyCollection(v)) {
+        return [`${indent}${yamlKey(key)}:`, ...yamlLines(v, indent + "  ")];
+      }
+      return [`${indent}${yamlKey(key)}: ${yamlInline(v)}`];
+    });
+}
+
+function yamlInline(value: unknown): string {
+  if (Array.isArray(value)) return "[]";
+  if (value !== null && typeof value === "object") return "{}";
+  return yamlScalar(value);
+}
+
+/** Serialize JSON-compatible data as a YAML document */
+export function toYaml(value: unknown): string {
+  if (value === null || typeof value !== "object" || isEmptyCollection(value)) return yamlInline(value);
+  return yamlLines(JSON.parse(JSON.stringify(value)), "").join("\n");
+}
+
+/**
+ * Render a command result.
+ *
+ * `rows` are the records used by row formats (table, csv, ndjson, template);
+ * document formats (json, yaml) render `value` itself, with `fields` applied to
+ * each row inside a paged `{ data: [...] }` result.
+ */
+export function formatOutput(value: unknown, rows: unknown[], options: OutputOptions): string {
+  const { format, fields } = options;
+
+  if (!isRowFormat(format)) {
+    let doc = value;
+    if (fields) {
+      if (Array.isArray(value)) {
+        doc = value.map((r) => pickFields(r, fields));
+      } else if (value && typeof value === "object" && Array.isArray((value as { data?: unknown }).data)) {
+        doc = { ...value, data: (value as { data: unknown[] }).data.map((r) => pickFields(r, fields)) };
+      } else {
+        doc = pickFields(value, fields);
+      }
+    }
+    return format === "json" ? JSON.stringify(doc, null, 2) : toYaml(doc);
+  }
+
+  if (format === "ndjson") return rows.map((r) => JSON.stringify(fields ? pickFields(r, fields) : r)).join("\n");
+  if (format === "template") {
+    if (!options.template) throw new Error("--format template requires --template '<pattern>'.");
+    return rows.map((r) => renderTemplate(options.template!, r)).join("\n");
+  }
+
+  const columns = fields ?? collectFields(rows);
+  return format === "csv" ? toCsv(rows, columns) : toTable(rows, columns, options.width);
+}
+
+/**
+ * Writes records one at a time (e.g. while a long-running command produces results).
+ * CSV and table headers are printed once; table columns are sized from the first record.
+ */
+export class RecordWriter {
+  private readonly options: OutputOptions;
+  private readonly write: (line: string) => void;
+  private columns: string[] | undefined;
+  private widths: number[] | undefined;
+
+  constructor(options: OutputOptions, write: (line: string) => void = (line) => console.log(line)) {
+    this.options = options;
+    this.write = write;
+  }
+
+  public push(record: unknown): void {
+    const { format } = this.options;
+    if (format === "json" || format === "ndjson") {
+      const fields = this.options.fields;
+      this.write(JSON.stringify(fields ? pickFields(record, fields) : record));
+      return;
+    }
+    if (format === "yaml") {
+      this.write("---\n" + formatOutput(record, [record], this.options));
+      return;
+    }
+    if (format === "template") {
+      this.write(formatOutput(record, [record], this.options));
+      return;
+    }
+
+    const first = !this.columns;
+    this.columns ??= this.options.fields ?? collectFields([record]);
+    if (format === "csv") {
+      // Quoted cells may contain newlines, so the header and row are encoded separately
+      const row = csvRow(record, this.columns);
+      this.write(first ? `${this.columns.map(csvCell).join(",")}\n${row}` : row);
+      return;
+    }
+
+    const cells = tableCells(record, this.columns);
+    if (!this.widths) {
+      const header = this.columns.map((f) => f.toUpperCase());
+      this.widths = tableWidths(header, [cells], this.options.width ?? terminalWidth());
+      this.write(tableLine(header, this.widths));
+    }
+    this.write(tableLine(cells, this.widths));
+  }
+}
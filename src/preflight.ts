@@ -0,0 +1,399 @@
+import { closeSync, existsSync, openSync, readSync, statSync } from "fs";
+import { resolve } from "path";
+import type { FetchLike } from "./client/transport.js";
+import { isLocalMedia } from "./hosting.js";
+
+/** Bytes read from the start of every file: enough for image headers and a front `moov` */
+const HEAD_BYTES = 256 * 1024;
+/** Largest `moov` box fetched separately when it sits behind the media data */
+const MAX_MOOV_BYTES = 16 * 1024 * 1024;
+const PROBE_TIMEOUT_MS = 15_000;
+
+const MB = 1024 * 1024;
+
+/** Threads image requirements (developers.facebook.com/docs/threads/overview#image-specifications) */
+export const IMAGE_LIMITS = {
+  formats: ["jpeg", "png"],
+  maxBytes: 8 * MB,
+  /** Narrower or wider images are scaled by Threads */
+  minWidth: 320,
+  maxWidth: 1440,
+  maxAspectRatio: 10,
+};
+
+/** Threads video requirements (developers.facebook.com/docs/threads/overview#video-specifications) */
+export const VIDEO_LIMITS = {
+  formats: ["mp4", "mov"],
+  maxBytes: 1024 * MB,
+  maxWidth: 1920,
+  /** Width:height between 0.01:1 and 10:1 */
+  minAspectRatio: 0.01,
+  maxAspectRatio: 10,
+  maxDurationSeconds: 300,
+};
+
+export type MediaFormat = "jpeg" | "png" | "gif" | "webp" | "heif" | "mp4" | "mov";
+
+export type MediaKind = "IMAGE" | "VIDEO";
+
+const KIND_OF: Record<MediaFormat, MediaKind> = {
+  jpeg: "IMAGE", png: "IMAGE", gif: "IMAGE", webp: "IMAGE", heif: "IMAGE", mp4: "VIDEO", mov: "VIDEO",
+};
+
+/** What could be read about a media file or URL */
+export interface MediaInfo {
+  source: string;
+  media_type?: MediaKind;
+  format?: MediaFormat;
+  content_type?: string;
+  size?: number;
+  width?: number;
+  height?: number;
+  /** Seconds (videos) */
+  duration?: number;
+  /** False when a video's `moov` box comes after its media data */
+  faststart?: boolean;
+}
+
+export interface MediaCheck extends MediaInfo {
+  errors: string[];
+  warnings: string[];
+}
+
+interface ByteSource {
+  size?: number;
+  contentType?: string;
+  /** Read up to `length` bytes at `offset`; undefined if the source cannot seek there */
+  read(offset: number, length: number): Promise<Buffer | undefined>;
+}
+
+function localSource(path: string): ByteSource {
+  const size = statSync(path).size;
+  return {
+    size,
+    read: async (offset, length) => {
+      const buffer = Buffer.alloc(Math.max(0, Math.min(length, size - offset)));
+      const fd = openSync(path, "r");
+      try {
+        readSync(fd, buffer, 0, buffer.length, offset);
+      } finally {
+        closeSync(fd);
+      }
+      return buffer;
+    },
+  };
+}
+
+function numberHeader(value: string | null): number | undefined {
+  const n = value ? Number(value) : NaN;
+  return Number.isFinite(n) ? n : undefined;
+}
+
+/** First `length` bytes of a response body, without downloading the rest */
+async function readPrefix(res: Response, length: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let total = 0;
+  const reader = res.body?.getReader();
+  if (!reader) return Buffer.alloc(0);
+  while (total < length) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(Buffer.from(value));
+    total += value.length;
+  }
+  await reader.cancel().catch(() => undefined);
+  return Buffer.concat(chunks).subarray(0, length);
+}
+
+/** HTTP source using HEAD for size/type and Range requests for content */
+async function remoteSource(url: string, fetchImpl: FetchLike): Promise<ByteSource> {
+  const source: ByteSource = {
+    read: async (offset, length) => {
+      const res = await fetchImpl(url, {
+        headers: { Range: `bytes=${offset}-${offset + length - 1}` },
+        signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+      });
+      if (res.status === 416) return Buffer.alloc(0);
+      if (!res.ok) {
+        await res.body?.cancel().catch(() => undefined);
+        throw new Error(`HTTP ${res.status} ${res.statusText}`.trim());
+      }
+      source.contentType ??= res.headers.get("content-type") ?? undefined;
+      if (res.status === 206) {
+        source.size ??= numberHeader(res.headers.get("content-range")?.split("/")[1] ?? null);
+        return Buffer.from(await res.arrayBuffer());
+      }
+      // Range ignored: the body is the whole file, so only nearby offsets are affordable
+      source.size ??= numberHeader(res.headers.get("content-length"));
+      if (offset > HEAD_BYTES) {
+        await res.body?.cancel().catch(() => undefined);
+        return undefined;
+      }
+      return (await readPrefix(res, offset + length)).subarray(offset);
+    },
+  };
+
+  // Some hosts (e.g. presigned GET URLs) reject HEAD; the ranged GET then reports the real error
+  try {
+    const head = await fetchImpl(url, { method: "HEAD", signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) });
+    if (head.ok) {
+      source.size = numberHeader(head.headers.get("content-length"));
+      source.contentType = head.headers.get("content-type") ?? undefined;
+    }
+  } catch {
+    // Fall through to the GET
+  }
+  return source;
+}
+
+function detectFormat(head: Buffer): MediaFormat | undefined {
+  const ascii = (start: number, end: number) => head.toString("latin1", start, end);
+  if (head.length >= 3 && head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff) return "jpeg";
+  if (head.length >= 8 && head.readUInt32BE(0) === 0x89504e47 && head.readUInt32BE(4) === 0x0d0a1a0a) return "png";
+  if (ascii(0, 4) === "GIF8") return "gif";
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "webp";
+  if (ascii(4, 8) === "ftyp") {
+    const brand = ascii(8, 12);
+    if (["heic", "heix", "mif1", "msf1", "avif"].includes(brand)) return "heif";
+    return brand === "qt  " ? "mov" : "mp4";
+  }
+  // Older QuickTime files start straight with these atoms
+  if (["moov", "mdat", "wide", "free"].includes(ascii(4, 8))) return "mov";
+  return undefined;
+}
+
+const JPEG_SOF = new Set([0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf]);
+
+function imageSize(format: MediaFormat, b: Buffer): { width: number; height: number } | undefined {
+  try {
+    if (format === "png") return { width: b.readUInt32BE(16), height: b.readUInt32BE(20) };
+    if (format === "gif") return { width: b.readUInt16LE(6), height: b.readUInt16LE(8) };
+    if (format === "webp") {
+      const chunk = b.toString("latin1", 12, 16);
+      if (chunk === "VP8 ") return { width: b.readUInt16LE(26) & 0x3fff, height: b.readUInt16LE(28) & 0x3fff };
+      if (chunk === "VP8L") {
+        const bits = b.readUInt32LE(21);
+        return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+      }
+      if (chunk === "VP8X") return { width: b.readUIntLE(24, 3) + 1, height: b.readUIntLE(27, 3) + 1 };
+    }
+    if (format === "jpeg") {
+      for (let i = 2; i + 9 < b.length;) {
+        if (b[i] !== 0xff) return undefined;
+        const marker = b[i + 1];
+        if (marker === 0xff) { i++; continue; }
+        if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) { i += 2; continue; }
+        if (JPEG_SOF.has(marker)) return { height: b.readUInt16BE(i + 5), width: b.readUInt16BE(i + 7) };
+        i += 2 + b.readUInt16BE(i + 2);
+      }
+    }
+  } catch {
+    // Header cut short
+  }
+  return undefined;
+}
+
+/** ISO BMFF boxes inside `buffer[start, end)` */
+function* childBoxes(buffer: Buffer, start = 0, end = buffer.length): Generator<{ type: string; contentStart: number; end: number }> {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    let header = 8;
+    if (size === 1 && offset + 16 <= end) {
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) return;
+    yield { type: buffer.toString("latin1", offset + 4, offset + 8), contentStart: offset + header, end: offset + size };
+    offset += size;
+  }
+}
+
+function videoTrackSize(moov: Buffer, start: number, end: number): { width: number; height: number } | undefined {
+  let size: { width: number; height: number } | undefined;
+  let isVideo = false;
+  for (const box of childBoxes(moov, start, end)) {
+    if (box.type === "tkhd") {
+      const at = box.contentStart + (moov[box.contentStart] === 1 ? 88 : 76);
+      if (at + 8 <= box.end) {
+        size = { width: Math.round(moov.readUInt32BE(at) / 65536), height: Math.round(moov.readUInt32BE(at + 4) / 65536) };
+      }
+    }
+    if (box.type === "mdia") {
+      for (const inner of childBoxes(moov, box.contentStart, box.end)) {
+        if (inner.type === "hdlr" && moov.toString("latin1", inner.contentStart + 8, inner.contentStart + 12) === "vide") isVideo = true;
+      }
+    }
+  }
+  return isVideo && size?.width ? size : undefined;
+}
+
+function parseMoov(moov: Buffer): Pick<MediaInfo, "duration" | "width" | "height"> {
+  const info: Pick<MediaInfo, "duration" | "width" | "height"> = {};
+  for (const box of childBoxes(moov)) {
+    if (box.type === "mvhd") {
+      const v1 = moov[box.contentStart] === 1;
+      const timescale = moov.readUInt32BE(box.contentStart + (v1 ? 20 : 12));
+      const duration = v1 ? Number(moov.readBigUInt64BE(box.contentStart + 24)) : moov.readUInt32BE(box.contentStart + 16);
+      if (timescale) info.duration = Math.round((duration / timescale) * 100) / 100;
+    }
+    if (box.type === "trak" && info.width === undefined) Object.assign(info, videoTrackSize(moov, box.contentStart, box.end));
+  }
+  return info;
+}
+
+/** Walk the top-level boxes to the `moov` box and read duration and dimensions from it */
+async function probeVideo(
+  read: (offset: number, length: number) => Promise<Buffer | undefined>,
+  size: number | undefined,
+): Promise<Pick<MediaInfo, "duration" | "width" | "height" | "faststart">> {
+  let offset = 0;
+  let sawMediaData = false;
+  for (let i = 0; i < 64 && (size === undefined || offset < size); i++) {
+    const header = await read(offset, 16);
+    if (!header || header.length < 8) break;
+    let boxSize = header.readUInt32BE(0);
+    let headerSize = 8;
+    if (boxSize === 1 && header.length >= 16) {
+      boxSize = Number(header.readBigUInt64BE(8));
+      headerSize = 16;
+    }
+    const type = header.toString("latin1", 4, 8);
+    if (type === "moov") {
+      if (boxSize === 0 || boxSize > MAX_MOOV_BYTES) break;
+      const moov = await read(offset + headerSize, boxSize - headerSize);
+      return { ...(moov ? parseMoov(moov) : {}), faststart: !sawMediaData };
+    }
+    if (type === "mdat") sawMediaData = true;
+    if (boxSize < headerSize) break;
+    offset += boxSize;
+  }
+  return sawMediaData ? { faststart: false } : {};
+}
+
+/** Read the type, size and (where possible) dimensions and duration of a media URL or local file */
+export async function probeMedia(ref: string, options: { baseDir?: string; fetch?: FetchLike } = {}): Promise<MediaInfo> {
+  let source: ByteSource;
+  if (isLocalMedia(ref)) {
+    const path = resolve(options.baseDir ?? process.cwd(), ref.replace(/^file:\/\//, ""));
+    if (!existsSync(path) || !statSync(path).isFile()) throw new Error(`Media file not found: ${path}`);
+    source = localSource(path);
+  } else {
+    source = await remoteSource(ref, options.fetch ?? fetch);
+  }
+
+  const head = (await source.read(0, HEAD_BYTES)) ?? Buffer.alloc(0);
+  const complete = head.length < HEAD_BYTES || head.length === source.size;
+  const read = async (offset: number, length: number) =>
+    offset + length <= head.length || complete ? head.subarray(offset, offset + length) : source.read(offset, length);
+
+  const format = detectFormat(head);
+  const info: MediaInfo = {
+    source: ref,
+    media_type: format ? KIND_OF[format] : undefined,
+    format,
+    content_type: source.contentType?.split(";")[0].trim(),
+    size: source.size ?? (complete ? head.length : undefined),
+  };
+  if (info.media_type === "IMAGE") Object.assign(info, imageSize(format!, head));
+  if (info.media_type === "VIDEO") Object.assign(info, await probeVideo(read, info.size));
+  return info;
+}
+
+/** Human-readable size, e.g. `8.0 MB` */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < MB) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / MB).toFixed(bytes < 10 * MB ? 1 : 0)} MB`;
+}
+
+/** Check probed media against the Threads limits, optionally requiring a media type */
+export function validateMedia(info: MediaInfo, expected?: MediaKind): { errors: string[]; warnings: string[] } {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const { width, height } = info;
+
+  if (!info.media_type) {
+    const type = info.content_type ? ` (Content-Type: ${info.content_type})` : "";
+    errors.push(info.content_type?.startsWith("text/html")
+      ? "URL returned an HTML page, not a media file"
+      : `Unrecognized media format${type}; use JPEG/PNG images or MP4/MOV videos`);
+    return { errors, warnings };
+  }
+  if (expected && info.media_type !== expected) {
+    errors.push(`Expected ${expected === "IMAGE" ? "an image" : "a video"} but found ${info.media_type === "IMAGE" ? "an image" : "a video"} (${info.format})`);
+  }
+
+  if (info.media_type === "IMAGE") {
+    if (!IMAGE_LIMITS.formats.includes(info.format!)) errors.push(`${info.format!.toUpperCase()} images are not supported; use JPEG or PNG`);
+    if (info.size !== undefined && info.size > IMAGE_LIMITS.maxBytes) {
+      errors.push(`Image is ${formatBytes(info.size)}; the limit is ${formatBytes(IMAGE_LIMITS.maxBytes)}`);
+    }
+    if (width && height) {
+      if (Math.max(width / height, height / width) > IMAGE_LIMITS.maxAspectRatio) {
+        errors.push(`Aspect ratio ${width}x${height} exceeds ${IMAGE_LIMITS.maxAspectRatio}:1`);
+      }
+      if (width < IMAGE_LIMITS.minWidth) warnings.push(`Width ${width}px is below ${IMAGE_LIMITS.minWidth}px and will be scaled up`);
+      if (width > IMAGE_LIMITS.maxWidth) warnings.push(`Width ${width}px is above ${IMAGE_LIMITS.maxWidth}px and will be scaled down`);
+    } else {
+      warnings.push("Could not read the image dimensions");
+    }
+  } else {
+    if (info.size !== undefined && info.size > VIDEO_LIMITS.maxBytes) {
+      errors.push(`Video is ${formatBytes(info.size)}; the limit is ${formatBytes(VIDEO_LIMITS.maxBytes)}`);
+    }
+    if (width && height) {
+      if (width > VIDEO_LIMITS.maxWidth) errors.push(`Width ${width}px exceeds the ${VIDEO_LIMITS.maxWidth}px maximum`);
+      const ratio = width / height;
+      if (ratio < VIDEO_LIMITS.minAspectRatio || ratio > VIDEO_LIMITS.maxAspectRatio) {
+        errors.push(`Aspect ratio ${width}x${height} is outside ${VIDEO_LIMITS.minAspectRatio}:1 to ${VIDEO_LIMITS.maxAspectRatio}:1`);
+      }
+    }
+    if (info.duration !== undefined) {
+      if (info.duration > VIDEO_LIMITS.maxDurationSeconds) {
+        errors.push(`Video is ${Math.round(info.duration)}s long; the limit is ${VIDEO_LIMITS.maxDurationSeconds}s`);
+      } else if (info.duration <= 0) {
+        errors.push("Video has no duration");
+      }
+    }
+    if (info.faststart === false) {
+      warnings.push("The moov atom is not at the front of the file (re-encode with `ffmpeg -movflags +faststart`)");
+    }
+    if (info.duration === undefined || !width) warnings.push("Could not read the video duration or dimensions");
+  }
+  if (info.size === undefined) warnings.push("Could not determine the file size");
+  return { errors, warnings };
+}
+
+/** Probe and validate one media reference; failures to read it become errors */
+export async function checkMedia(
+  ref: string,
+  options: { baseDir?: string; fetch?: FetchLike; expected?: MediaKind } = {},
+): Promise<MediaCheck> {
+  let info: MediaInfo;
+  try {
+    info = await probeMedia(ref, options);
+  } catch (err) {
+    return { source: ref, errors: [`Could not read media: ${(err as Error).message}`], warnings: [] };
+  }
+  return { ...info, ...validateMedia(info, options.expected) };
+}
+
+/**
+ * Check every media reference before any container is created. Throws one error
+ * listing every problem; otherwise returns the checks (for detected types and warnings).
+ */
+export async function preflightMedia(
+  items: Array<{ ref: string; expected?: MediaKind }>,
+  options: { baseDir?: string; fetch?: FetchLike } = {},
+): Promise<MediaCheck[]> {
+  const checks = await Promise.all(items.map((item) => checkMedia(item.ref, { ...options, expected: item.expected })));
+  const failed = checks.filter((check) => check.errors.length);
+  if (failed.length) {
+    const lines = failed.flatMap((check) => check.errors.map((error) => `  ${check.source}: ${error}`));
+    throw new Error(`Media check failed:\n${lines.join("\n")}`);
+  }
+  return checks;
+}
@@ -0,0 +1,195 @@
+import { randomBytes } from "crypto";
+import { hostname } from "os";
+import type { ReplyControl } from "./client/types.js";
+import { readState, writeState, withLock } from "./state.js";
+
+const QUEUE_FILE = "schedule.json";
+
+export type ScheduleStatus = "pending" | "publishing" | "published" | "failed" | "cancelled";
+
+export interface ScheduledPost {
+  id: string;
+  profile: string;
+  /** ISO timestamp at which the post becomes due */
+  at: string;
+  kind: "post" | "carousel";
+  text: string;
+  image_url?: string;
+  video_url?: string;
+  media?: string[];
+  reply_to_id?: string;
+  reply_control?: ReplyControl;
+  /** Publish without checking the media first (`schedule add --no-preflight`) */
+  skip_preflight?: boolean;
+  status: ScheduleStatus;
+  created_at: string;
+  updated_at: string;
+  attempts: number;
+  /** host:pid of the runner that claimed the item */
+  claimed_by?: string;
+  published_id?: string;
+  error?: string;
+}
+
+export type ScheduledPostInput = Pick<
+  ScheduledPost,
+  "profile" | "at" | "text" | "image_url" | "video_url" | "media" | "reply_to_id" | "reply_control" | "skip_preflight"
+>;
+
+/** Fields that can be changed with `schedule edit` */
+export type ScheduledPostUpdate = Partial<Omit<ScheduledPostInput, "profile">>;
+
+interface QueueFile {
+  items: ScheduledPost[];
+}
+
+function readQueue(): QueueFile {
+  return readState<QueueFile>(QUEUE_FILE, { items: [] });
+}
+
+/** Parse an ISO (or Date-parsable) time, throwing on invalid input */
+export function parseScheduleTime(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid time '${value}'. Use ISO 8601, e.g. 2025-08-15T09:00:00+09:00.`);
+  }
+  return date.toISOString();
+}
+
+function validate(item: Pick<ScheduledPost, "text" | "image_url" | "video_url" | "media">): void {
+  if (item.image_url && item.video_url) {
+    throw new Error("Cannot use both an image and a video. Use --media for multiple media.");
+  }
+  if (item.media?.length && (item.image_url || item.video_url)) {
+    throw new Error("--media cannot be combined with --image or --video.");
+  }
+  if (item.media && (item.media.length < 2 || item.media.length > 10)) {
+    throw new Error("Carousel requires 2-10 media items.");
+  }
+  if (!item.text && !item.image_url && !item.video_url && !item.media?.length) {
+    throw new Error("Provide text, an image, a video, or media.");
+  }
+}
+
+/** Add a post to the queue */
+export async function addScheduledPost(input: ScheduledPostInput): Promise<ScheduledPost> {
+  validate(input);
+  const now = new Date().toISOString();
+  const item: ScheduledPost = {
+    ...input,
+    id: randomBytes(4).toString("hex"),
+    at: parseScheduleTime(input.at),
+    kind: input.media?.length ? "carousel" : "post",
+    status: "pending",
+    created_at: now,
+    updated_at: now,
+    attempts: 0,
+  };
+
+  await withLock(QUEUE_FILE, () => {
+    const queue = readQueue();
+    queue.items.push(item);
+    writeState(QUEUE_FILE, queue);
+  });
+  return item;
+}
+
+/** List queued posts, ordered by due time */
+export function listScheduledPosts(): ScheduledPost[] {
+  return [...readQueue().items].sort((a, b) => a.at.localeCompare(b.at));
+}
+
+/** Get a queued post by ID */
+export function getScheduledPost(id: string): ScheduledPost {
+  const item = readQueue().items.find((i) => i.id === id);
+  if (!item) throw new Error(`Scheduled post '${id}' not found.`);
+  return item;
+}
+
+async function mutate(id: string, fn: (item: ScheduledPost) => void): Promise<ScheduledPost> {
+  return withLock(QUEUE_FILE, () => {
+    const queue = readQueue();
+    const item = queue.items.find((i) => i.id === id);
+    if (!item) throw new Error(`Scheduled post '${id}' not found.`);
+    fn(item);
+    item.updated_at = new Date().toISOString();
+    writeState(QUEUE_FILE, queue);
+    return item;
+  });
+}
+
+function assertEditable(item: ScheduledPost): void {
+  if (item.status !== "pending" && item.status !== "failed") {
+    throw new Error(`Scheduled post '${item.id}' is ${item.status} and can no longer be changed.`);
+  }
+}
+
+/** Cancel a pending or failed post */
+export async function cancelScheduledPost(id: string): Promise<ScheduledPost> {
+  return mutate(id, (item) => {
+    assertEditable(item);
+    item.status = "cancelled";
+  });
+}
+
+/** Edit a pending or failed post. Editing a failed post re-queues it. */
+export async function editScheduledPost(id: string, update: ScheduledPostUpdate): Promise<ScheduledPost> {
+  return mutate(id, (item) => {
+    assertEditable(item);
+    const next = { ...item, ...update };
+    if (update.at) next.at = parseScheduleTime(update.at);
+    validate(next);
+    Object.assign(item, next, {
+      kind: next.media?.length ? "carousel" : "post",
+      status: "pending",
+      error: undefined,
+    });
+  });
+}
+
+/**
+ * Publish every pending post that is due.
+ *
+ * Each item is claimed (pending → publishing) under the queue lock before
+ * `publish` is called, so overlapping runners never publish the same item.
+ * An item left in `publishing` by a crashed runner is not retried automatically.
+ */
+export async function runDueScheduledPosts(
+  publish: (item: ScheduledPost) => Promise<{ id: string }>,
+  options?: { now?: Date; onResult?: (item: ScheduledPost) => void },
+): Promise<ScheduledPost[]> {
+  const results: ScheduledPost[] = [];
+  const runner = `${hostname()}:${process.pid}`;
+
+  for (;;) {
+    const now = (options?.now ?? new Date()).toISOString();
+    const claimed = await withLock(QUEUE_FILE, () => {
+      const queue = readQueue();
+      const due = queue.items
+        .filter((i) => i.status === "pending" && i.at <= now)
+        .sort((a, b) => a.at.localeCompare(b.at))[0];
+      if (!due) return undefined;
+      due.status = "publishing";
+      due.claimed_by = runner;
+      due.attempts += 1;
+      due.updated_at = new Date().toISOString();
+      writeState(QUEUE_FILE, queue);
+      return { ...due };
+    });
+    if (!claimed) break;
+
+    let outcome: Partial<ScheduledPost>;
+    try {
+      const result = await publish(claimed);
+      outcome = { status: "published", published_id: result.id, error: undefined };
+    } catch (err) {
+      outcome = { status: "failed", error: (err as Error).message };
+    }
+
+    const finished = await mutate(claimed.id, (item) => Object.assign(item, outcome));
+    results.push(finished);
+    options?.onResult?.(finished);
+  }
+
+  return results;
+}
@@ -0,0 +1,152 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+import { execSync } from "child_process";
+
+/** scrypt cost parameters for new files (~64 MiB, well under a second) */
+const SCRYPT_PARAMS = { N: 2 ** 16, r: 8, p: 1 };
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const CREDENTIAL_COMMAND_TIMEOUT_MS = 30_000;
+
+/** Encrypted form of config.json: `{ "encrypted": EncryptedEnvelope }` */
+export interface EncryptedEnvelope {
+  version: 1;
+  kdf: "scrypt";
+  salt: string;
+  N: number;
+  r: number;
+  p: number;
+  cipher: "aes-256-gcm";
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+/** Keys a credential command can supply */
+export type CredentialKey = "app_id" | "app_secret" | "access_token" | "user_id";
+
+const CREDENTIAL_KEYS: CredentialKey[] = ["app_id", "app_secret", "access_token", "user_id"];
+
+/**
+ * External program that supplies credentials. A string must print a JSON object
+ * with any of the credential keys; an object maps each key to its own command,
+ * whose first output line is the value (e.g. `pass show threads/token`).
+ */
+export type CredentialCommand = string | Partial<Record<CredentialKey, string>>;
+
+/** Derived keys by salt + passphrase, so repeated reads and writes skip scrypt */
+const keyCache = new Map<string, Buffer>();
+
+function deriveKey(passphrase: string, envelope: Pick<EncryptedEnvelope, "salt" | "N" | "r" | "p">): Buffer {
+  const cacheKey = `${envelope.salt}:${envelope.N}:${envelope.r}:${envelope.p}:${passphrase}`;
+  let key = keyCache.get(cacheKey);
+  if (!key) {
+    key = scryptSync(passphrase, Buffer.from(envelope.salt, "base64"), KEY_BYTES, {
+      N: envelope.N,
+      r: envelope.r,
+      p: envelope.p,
+      maxmem: 256 * envelope.N * envelope.r,
+    });
+    keyCache.set(cacheKey, key);
+  }
+  return key;
+}
+
+/** True if a parsed config file is in the encrypted format */
+export function isEncryptedEnvelope(value: unknown): value is { encrypted: EncryptedEnvelope } {
+  const envelope = (value as { encrypted?: Partial<EncryptedEnvelope> } | null)?.encrypted;
+  return typeof envelope === "object" && envelope !== null && envelope.cipher === "aes-256-gcm" && typeof envelope.data === "string";
+}
+
+/**
+ * Encrypt a JSON value with AES-256-GCM under a scrypt key derived from `passphrase`.
+ * Pass `previous` to keep its salt (and cached key); every call uses a fresh IV.
+ */
+export function encryptJson(value: unknown, passphrase: string, previous?: EncryptedEnvelope): EncryptedEnvelope {
+  const kdf = previous
+    ? { salt: previous.salt, N: previous.N, r: previous.r, p: previous.p }
+    : { salt: randomBytes(16).toString("base64"), ...SCRYPT_PARAMS };
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", deriveKey(passphrase, kdf), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(value), "utf-8"), cipher.final()]);
+  return {
+    version: 1,
+    kdf: "scrypt",
+    ...kdf,
+    cipher: "aes-256-gcm",
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+/** Decrypt an envelope; a wrong passphrase or tampered file fails authentication */
+export function decryptJson(envelope: EncryptedEnvelope, passphrase: string): unknown {
+  if (envelope.version !== 1 || envelope.kdf !== "scrypt") {
+    throw new Error(`Unsupported encrypted config (version ${envelope.version}, kdf ${envelope.kdf}).`);
+  }
+  const decipher = createDecipheriv("aes-256-gcm", deriveKey(passphrase, envelope), Buffer.from(envelope.iv, "base64"));
+  decipher.setAuthTag(Buffer.from(envelope.tag, "base64"));
+  let plaintext: string;
+  try {
+    plaintext = Buffer.concat([decipher.update(Buffer.from(envelope.data, "base64")), decipher.final()]).toString("utf-8");
+  } catch {
+    throw new Error("Could not decrypt the config file: wrong passphrase or the file was modified.");
+  }
+  return JSON.parse(plaintext);
+}
+
+/** Output of each credential command already run in this process */
+const commandCache = new Map<string, string>();
+
+function runCommand(command: string, profile: string): string {
+  const cacheKey = `${profile}\0${command}`;
+  const cached = commandCache.get(cacheKey);
+  if (cached !== undefined) return cached;
+
+  let output: string;
+  try {
+    output = execSync(command, {
+      encoding: "utf-8",
+      stdio: ["ignore", "pipe", "inherit"],
+      env: { ...process.env, THRD_PROFILE: profile },
+      timeout: CREDENTIAL_COMMAND_TIMEOUT_MS,
+    });
+  } catch (err) {
+    const status = (err as { status?: number | null }).status;
+    throw new Error(`credential_command failed${status ? ` (exit code ${status})` : ""}: ${command}`);
+  }
+  commandCache.set(cacheKey, output);
+  return output;
+}
+
+/**
+ * Run a credential command for `profile` (exported to it as THRD_PROFILE).
+ * Results are cached for the rest of the process.
+ */
+export function runCredentialCommand(command: CredentialCommand, profile: string): Partial<Record<CredentialKey, string>> {
+  const credentials: Partial<Record<CredentialKey, string>> = {};
+
+  if (typeof command === "string") {
+    let parsed: Record<string, unknown>;
+    try {
+      parsed = JSON.parse(runCommand(command, profile)) as Record<string, unknown>;
+    } catch (err) {
+      if ((err as Error).message.startsWith("credential_command failed")) throw err;
+      throw new Error(`credential_command must print a JSON object with ${CREDENTIAL_KEYS.join(", ")}: ${command}`);
+    }
+    for (const key of CREDENTIAL_KEYS) {
+      const value = parsed?.[key];
+      if (typeof value === "string" || typeof value === "number") credentials[key] = String(value);
+    }
+    return credentials;
+  }
+
+  for (const key of CREDENTIAL_KEYS) {
+    const keyCommand = command[key];
+    if (!keyCommand) continue;
+    const value = runCommand(keyCommand, profile).split(/\r?\n/)[0].trim();
+    if (!value) throw new Error(`credential_command for ${key} printed nothing: ${keyCommand}`);
+    credentials[key] = value;
+  }
+  return credentials;
+}
@@ -0,0 +1,98 @@
+import { resolve, dirname } from "path";
+import { existsSync, readFileSync, mkdirSync, writeFileSync, renameSync, openSync, closeSync, statSync, rmSync, appendFileSync } from "fs";
+import { hostname } from "os";
+import { getConfigDir } from "./config.js";
+
+const LOCK_RETRY_MS = 100;
+const LOCK_TIMEOUT_MS = 30_000;
+/** Locks older than this are assumed to belong to a crashed process */
+const LOCK_STALE_MS = 120_000;
+
+/** Resolve a path for a local state file under ~/.config/thrd-cli */
+export function getStatePath(name: string): string {
+  return resolve(getConfigDir(), name);
+}
+
+/** Read a JSON state file, returning `fallback` if it does not exist */
+export function readState<T>(name: string, fallback: T): T {
+  const path = getStatePath(name);
+  if (!existsSync(path)) return fallback;
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as T;
+  } catch (err) {
+    throw new Error(`Failed to parse ${path}: ${(err as Error).message}`);
+  }
+}
+
+/** Write a JSON state file atomically (temp file + rename), mode 600 */
+export function writeState(name: string, value: unknown): void {
+  const path = getStatePath(name);
+  mkdirSync(dirname(path), { recursive: true });
+  const tmp = `${path}.${process.pid}.tmp`;
+  writeFileSync(tmp, JSON.stringify(value, null, 2) + "\n", { mode: 0o600 });
+  renameSync(tmp, path);
+}
+
+/** Read an append-only state file with one JSON record per line (NDJSON) */
+export function readStateLines<T>(name: string): T[] {
+  const path = getStatePath(name);
+  if (!existsSync(path)) return [];
+  const records: T[] = [];
+  const lines = readFileSync(path, "utf-8").split("\n");
+  for (const [i, line] of lines.entries()) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as T);
+    } catch (err) {
+      // A partial last line is left behind if a writer was killed mid-append
+      if (i === lines.length - 1) break;
+      throw new Error(`Failed to parse ${path} line ${i + 1}: ${(err as Error).message}`);
+    }
+  }
+  return records;
+}
+
+/** Append records to an NDJSON state file (created with mode 600) */
+export function appendStateLines(name: string, records: unknown[]): void {
+  if (!records.length) return;
+  const path = getStatePath(name);
+  mkdirSync(dirname(path), { recursive: true });
+  appendFileSync(path, records.map((r) => JSON.stringify(r)).join("\n") + "\n", { mode: 0o600 });
+}
+
+/**
+ * Run `fn` while holding an exclusive lock file (`<name>.lock`).
+ * Used to serialize read-modify-write cycles between parallel thrd processes.
+ */
+export async function withLock<T>(name: string, fn: () => T | Promise<T>): Promise<T> {
+  const lockPath = `${getStatePath(name)}.lock`;
+  mkdirSync(dirname(lockPath), { recursive: true });
+
+  const start = Date.now();
+  let fd: number | undefined;
+  while (fd === undefined) {
+    try {
+      fd = openSync(lockPath, "wx", 0o600);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+      try {
+        if (Date.now() - statSync(lockPath).mtimeMs > LOCK_STALE_MS) {
+          rmSync(lockPath, { force: true });
+          continue;
+        }
+      } catch { /* lock released between calls */ }
+      if (Date.now() - start > LOCK_TIMEOUT_MS) {
+        throw new Error(`Timed out waiting for lock ${lockPath}. Remove it if no other thrd process is running.`);
+      }
+      await new Promise<void>((r) => setTimeout(r, LOCK_RETRY_MS));
+    }
+  }
+
+  try {
+    writeFileSync(fd, `${hostname()}:${process.pid}\n`);
+    return await fn();
+  } finally {
+    closeSync(fd);
+    rmSync(lockPath, { force: true });
+  }
+}
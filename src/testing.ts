@@ -0,0 +1,690 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import type { ApiErrorBody } from "./client/errors.js";
+import type { AppUsage, ContainerStatus, DemographicBreakdown, MediaType, PublicProfile, ThreadsPost } from "./client/types.js";
+
+/** A post stored by the fake server */
+export interface FakePost extends ThreadsPost {
+  /** Parent post for replies */
+  reply_to_id?: string;
+  /** Metric values served by `/{id}/insights` (missing metrics are 0) */
+  insights?: Record<string, number>;
+  /** Carousel this item belongs to; items are not listed on their own */
+  carousel_parent_id?: string;
+}
+
+/** A media container created via `POST /{user-id}/threads` */
+export interface FakeContainer {
+  id: string;
+  media_type: MediaType;
+  text?: string;
+  image_url?: string;
+  video_url?: string;
+  reply_to_id?: string;
+  quote_post_id?: string;
+  is_carousel_item?: boolean;
+  children?: string[];
+  /** Statuses returned by successive status polls; the last one repeats */
+  statuses: ContainerStatus[];
+  polls: number;
+  published_id?: string;
+  error_message?: string;
+}
+
+/** Canned error response returned instead of handling a request */
+export interface FakeFault {
+  /** HTTP status. Default: 500 */
+  status?: number;
+  /** Only match this method */
+  method?: string;
+  /** Only match paths (without version prefix) equal to the string or matching the pattern */
+  path?: string | RegExp;
+  /** Number of requests to fail. Default: 1 */
+  times?: number;
+  /** Graph API error body. Default depends on the status (code 4 for 429, code 2 for 5xx) */
+  error?: ApiErrorBody;
+  headers?: Record<string, string>;
+}
+
+/** A request received by the fake server */
+export interface FakeRequest {
+  method: string;
+  /** Path without the leading slash and API version, e.g. `123/threads` */
+  path: string;
+  params: Record<string, string>;
+}
+
+export interface FakeThreadsServerOptions {
+  /** Port to listen on. Default: 0 (random free port) */
+  port?: number;
+  userId?: string;
+  username?: string;
+  /** Token accepted by the server. Tokens issued by the OAuth endpoints are accepted too */
+  accessToken?: string;
+  /** Status sequence for new containers, e.g. ["IN_PROGRESS", "FINISHED"]. Default: ["FINISHED"] */
+  containerStatuses?: ContainerStatus[];
+  /** Value sent in `X-App-Usage` on every response */
+  appUsage?: AppUsage;
+}
+
+const DEFAULT_USER_ID = "1000000000000001";
+const DEFAULT_USERNAME = "fake_user";
+const DEFAULT_ACCESS_TOKEN = "fake-access-token";
+const LONG_LIVED_EXPIRES_IN = 60 * 24 * 60 * 60;
+const DEFAULT_SCOPES = ["threads_basic", "threads_content_publish", "threads_read_replies", "threads_manage_replies", "threads_manage_insights"];
+const DEFAULT_PAGE_SIZE = 25;
+const POST_QUOTA = 250;
+const REPLY_QUOTA = 1000;
+const QUOTA_DURATION = 24 * 60 * 60;
+const POST_FIELDS = "id,media_type,text,timestamp,permalink,username,is_quote_post";
+const VERSION_PREFIX = /^v\d+\.\d+\//;
+
+class FakeApiError extends Error {
+  public readonly status: number;
+  public readonly error: ApiErrorBody;
+
+  constructor(status: number, error: ApiErrorBody) {
+    super(error.message);
+    this.status = status;
+    this.error = error;
+  }
+}
+
+function notFound(id: string): FakeApiError {
+  return new FakeApiError(400, {
+    message: `Unsupported get request. Object with ID '${id}' does not exist`,
+    type: "GraphMethodException",
+    code: 100,
+    error_subcode: 33,
+  });
+}
+
+function invalidParam(message: string): FakeApiError {
+  return new FakeApiError(400, { message, type: "OAuthException", code: 100 });
+}
+
+function defaultFaultError(status: number): ApiErrorBody {
+  if (status === 429) return { message: "Application request limit reached", type: "OAuthException", code: 4 };
+  if (status === 401) return { message: "Invalid OAuth access token.", type: "OAuthException", code: 190 };
+  if (status === 403) return { message: "Permission denied", type: "OAuthException", code: 10 };
+  if (status === 404) return { message: "Not found", type: "GraphMethodException", code: 100, error_subcode: 33 };
+  if (status === 400) return { message: "Invalid parameter", type: "OAuthException", code: 100 };
+  return { message: "An unexpected error has occurred. Please retry your request later.", type: "OAuthException", code: 2 };
+}
+
+function encodeCursor(id: string): string {
+  return Buffer.from(id).toString("base64url");
+}
+
+function decodeCursor(cursor: string): string {
+  return Buffer.from(cursor, "base64url").toString("utf-8");
+}
+
+/** Whether a post falls within the `since`/`until` (unix seconds) params */
+function inTimeRange(post: FakePost, params: Record<string, string>): boolean {
+  const time = Date.parse(post.timestamp ?? "");
+  const since = params.since ? Number(params.since) * 1000 : -Infinity;
+  const until = params.until ? Number(params.until) * 1000 : Infinity;
+  return time >= since && time <= until;
+}
+
+function pickFields(post: Record<string, unknown>, fields: string | undefined): Record<string, unknown> {
+  const names = (fields ?? POST_FIELDS).split(",").map((f) => f.trim()).filter(Boolean);
+  const result: Record<string, unknown> = { id: post.id };
+  for (const name of names) {
+    if (post[name] !== undefined) result[name] = post[name];
+  }
+  return result;
+}
+
+/**
+ * Stateful fake of the Threads Graph API for tests, served over HTTP on localhost.
+ *
+ * ```ts
+ * const server = await FakeThreadsServer.start({ containerStatuses: ["IN_PROGRESS", "FINISHED"] });
+ * const client = new ThreadsClient(server.config(), { baseUrl: server.url });
+ * await createPost(client, "hello");
+ * await server.stop();
+ * ```
+ *
+ * Point the CLI at it with `THRD_API_URL=<server.url>`.
+ */
+export class FakeThreadsServer {
+  public readonly userId: string;
+  public readonly username: string;
+  public readonly accessToken: string;
+  /** Published posts and replies by ID */
+  public readonly posts = new Map<string, FakePost>();
+  /** Media containers by ID */
+  public readonly containers = new Map<string, FakeContainer>();
+  /** Every request received, in order */
+  public readonly requests: FakeRequest[] = [];
+  /**
+   * Account-level values served by `/{user-id}/threads_insights` (missing metrics are 0).
+   * Arrays become a daily `values` series ending at `until`; numbers become `total_value`.
+   */
+  public userInsights: Record<string, number | number[]> = {};
+  /** `follower_demographics` results per breakdown, e.g. `{ country: { US: 10, KR: 5 } }` */
+  public followerDemographics: Partial<Record<DemographicBreakdown, Record<string, number>>> = {};
+  /**
+   * Public profiles served by `/profile_lookup` by username. Other usernames that have
+   * posts (and our own) get a profile with zero counts.
+   */
+  public readonly profiles = new Map<string, PublicProfile>();
+  public containerStatuses: ContainerStatus[];
+  public appUsage: AppUsage | undefined;
+  /** Scopes reported by `/debug_token` */
+  public grantedScopes: string[] = [...DEFAULT_SCOPES];
+
+  private server: Server | undefined;
+  private port: number;
+  private faults: Array<FakeFault & { remaining: number }> = [];
+  private nextContainerStatuses: ContainerStatus[][] = [];
+  private validTokens = new Set<string>();
+  /** Unix seconds each token was issued at */
+  private tokenIssuedAt = new Map<string, number>();
+  private expiredTokens = new Set<string>();
+  private nextId = 1;
+
+  constructor(options: FakeThreadsServerOptions = {}) {
+    this.userId = options.userId ?? DEFAULT_USER_ID;
+    this.username = options.username ?? DEFAULT_USERNAME;
+    this.accessToken = options.accessToken ?? DEFAULT_ACCESS_TOKEN;
+    this.containerStatuses = options.containerStatuses ?? ["FINISHED"];
+    this.appUsage = options.appUsage;
+    this.port = options.port ?? 0;
+    this.validTokens.add(this.accessToken);
+    this.tokenIssuedAt.set(this.accessToken, Math.floor(Date.now() / 1000));
+  }
+
+  /** Create a server and start listening */
+  static async start(options?: FakeThreadsServerOptions): Promise<FakeThreadsServer> {
+    const server = new FakeThreadsServer(options);
+    await server.listen();
+    return server;
+  }
+
+  /** Origin to pass as `baseUrl` / `THRD_API_URL`, e.g. http://127.0.0.1:54321 */
+  public get url(): string {
+    if (!this.server) throw new Error("Fake server is not running. Call listen() first.");
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /** Credentials for a ThreadsClient talking to this server */
+  public config(): { app_id: string; app_secret: string; access_token: string; user_id: string } {
+    return { app_id: "fake-app-id", app_secret: "fake-app-secret", access_token: this.accessToken, user_id: this.userId };
+  }
+
+  public async listen(): Promise<void> {
+    if (this.server) return;
+    const server = createServer((req, res) => { void this.handle(req, res); });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.port, "127.0.0.1", () => resolve());
+    });
+    this.server = server;
+  }
+
+  public async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = undefined;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /** Clear posts, containers, faults and the request log */
+  public reset(): void {
+    this.posts.clear();
+    this.containers.clear();
+    this.requests.length = 0;
+    this.faults = [];
+    this.nextContainerStatuses = [];
+    this.userInsights = {};
+    this.followerDemographics = {};
+    this.profiles.clear();
+    this.expiredTokens.clear();
+    this.validTokens.add(this.accessToken);
+  }
+
+  /** Fail matching requests with a canned error (429/5xx by default behave like Meta's) */
+  public injectFault(fault: FakeFault): void {
+    this.faults.push({ ...fault, remaining: fault.times ?? 1 });
+  }
+
+  /** Use this status sequence for the next container created (then fall back to `containerStatuses`) */
+  public queueContainerStatuses(...statuses: ContainerStatus[]): void {
+    this.nextContainerStatuses.push(statuses);
+  }
+
+  /** Make the server reject a token as expired (code 190, subcode 463) */
+  public expireToken(token = this.accessToken): void {
+    this.expiredTokens.add(token);
+  }
+
+  /** Seed a published post or reply; returns the stored post */
+  public addPost(post: Partial<FakePost> & { text?: string }): FakePost {
+    const id = post.id ?? this.generateId();
+    const stored: FakePost = {
+      media_type: "TEXT",
+      timestamp: new Date().toISOString(),
+      username: this.username,
+      is_quote_post: false,
+      ...post,
+      id,
+      permalink: post.permalink ?? `https://www.threads.net/@${post.username ?? this.username}/post/${id}`,
+    };
+    this.posts.set(id, stored);
+    return stored;
+  }
+
+  private generateId(): string {
+    return String(18_000_000_000_000_000n + BigInt(this.nextId++));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const method = (req.method ?? "GET").toUpperCase();
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const params: Record<string, string> = Object.fromEntries(url.searchParams);
+
+    if (method === "POST") {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk as Buffer);
+      Object.assign(params, Object.fromEntries(new URLSearchParams(Buffer.concat(chunks).toString("utf-8"))));
+    }
+
+    const path = url.pathname.replace(/^\/+/, "").replace(VERSION_PREFIX, "").replace(/\/+$/, "");
+    this.requests.push({ method, path, params });
+
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.appUsage) headers["X-App-Usage"] = JSON.stringify(this.appUsage);
+
+    const fault = this.faults.find((f) =>
+      f.remaining > 0 &&
+      (!f.method || f.method.toUpperCase() === method) &&
+      (!f.path || (typeof f.path === "string" ? f.path === path : f.path.test(path))));
+    if (fault) {
+      fault.remaining--;
+      const status = fault.status ?? 500;
+      res.writeHead(status, { ...headers, ...fault.headers });
+      res.end(JSON.stringify({ error: { fbtrace_id: "FAKE", ...(fault.error ?? defaultFaultError(status)) } }));
+      return;
+    }
+
+    try {
+      const body = this.route(method, path, params);
+      res.writeHead(200, headers);
+      res.end(JSON.stringify(body));
+    } catch (err) {
+      const apiErr = err instanceof FakeApiError
+        ? err
+        : new FakeApiError(500, { message: (err as Error).message, type: "FakeServerError", code: 1 });
+      res.writeHead(apiErr.status, headers);
+      res.end(JSON.stringify({ error: { fbtrace_id: "FAKE", ...apiErr.error } }));
+    }
+  }
+
+  private checkToken(params: Record<string, string>): void {
+    const token = params.access_token;
+    if (token && this.expiredTokens.has(token)) {
+      throw new FakeApiError(401, {
+        message: "Error validating access token: Session has expired.",
+        type: "OAuthException",
+        code: 190,
+        error_subcode: 463,
+      });
+    }
+    if (!token || !this.validTokens.has(token)) {
+      throw new FakeApiError(401, { message: "Invalid OAuth access token.", type: "OAuthException", code: 190 });
+    }
+  }
+
+  private issueToken(prefix: string): string {
+    const token = `${prefix}-${this.nextId++}`;
+    this.validTokens.add(token);
+    this.tokenIssuedAt.set(token, Math.floor(Date.now() / 1000));
+    return token;
+  }
+
+  private route(method: string, path: string, params: Record<string, string>): unknown {
+    // OAuth endpoints live outside the versioned API
+    if (method === "POST" && path === "oauth/access_token") {
+      if (!params.code) throw invalidParam("Missing authorization code");
+      return { access_token: this.issueToken("fake-short-lived"), user_id: Number(this.userId) };
+    }
+    if (method === "GET" && path === "access_token") {
+      if (params.grant_type !== "th_exchange_token") throw invalidParam("Unsupported grant_type");
+      this.checkToken(params);
+      return { access_token: this.issueToken("fake-long-lived"), token_type: "bearer", expires_in: LONG_LIVED_EXPIRES_IN };
+    }
+    if (method === "GET" && path === "refresh_access_token") {
+      if (params.grant_type !== "th_refresh_token") throw invalidParam("Unsupported grant_type");
+      this.checkToken(params);
+      return { access_token: this.issueToken("fake-refreshed"), token_type: "bearer", expires_in: LONG_LIVED_EXPIRES_IN };
+    }
+
+    this.checkToken(params);
+    if (method === "GET" && path === "debug_token") return this.debugToken(params.input_token);
+    const [id, edge, ...rest] = path.split("/");
+    if (!id || rest.length) throw invalidParam(`Unknown path: ${path}`);
+    const nodeId = id === "me" ? this.userId : id;
+
+    if (nodeId === this.userId) return this.routeUser(method, edge, params);
+    if (id === "keyword_search" && !edge && method === "GET") return this.keywordSearch(params);
+    if (id === "profile_lookup" && !edge && method === "GET") return this.lookupProfile(params.username);
+    if (id === "profile_posts" && !edge && method === "GET") {
+      const profile = this.lookupProfile(params.username);
+      const posts = [...this.posts.values()].filter((p) =>
+        p.username === profile.username && !p.reply_to_id && !p.carousel_parent_id && inTimeRange(p, params));
+      return this.page(posts, params);
+    }
+    if (!edge) return this.routeObject(method, nodeId, params);
+
+    const post = this.posts.get(nodeId);
+    if (!post) throw notFound(nodeId);
+    if (method === "GET" && edge === "replies") {
+      return this.page([...this.posts.values()].filter((p) => p.reply_to_id === post.id), params);
+    }
+    if (method === "GET" && edge === "conversation") return this.page(this.descendants(post.id), params);
+    if (method === "GET" && edge === "insights") return this.mediaInsights(post.id, params.metric, post.insights ?? {});
+    if (method === "POST" && edge === "manage_reply") {
+      if (!post.reply_to_id) throw invalidParam("Only replies can be hidden");
+      post.hide_status = params.hide === "true" ? "HIDDEN" : "NOT_HUSHED";
+      return { success: true };
+    }
+    if (method === "POST" && edge === "repost") {
+      if (post.media_type === "REPOST_FACADE") throw invalidParam("Reposts cannot be reposted");
+      return { id: this.addPost({ media_type: "REPOST_FACADE", reposted_post: { id: post.id } }).id };
+    }
+    throw invalidParam(`Unsupported ${method} request: ${path}`);
+  }
+
+  private routeUser(method: string, edge: string | undefined, params: Record<string, string>): unknown {
+    if (!edge && method === "GET") {
+      return { id: this.userId, username: this.username, threads_profile_picture_url: "", threads_biography: "" };
+    }
+    if (edge === "threads" && method === "POST") return this.createContainer(params);
+    if (edge === "threads" && method === "GET") {
+      const own = [...this.posts.values()].filter((p) =>
+        !p.reply_to_id && !p.carousel_parent_id && p.username === this.username && inTimeRange(p, params));
+      return this.page(own, params);
+    }
+    if (edge === "mentions" && method === "GET") {
+      const mention = new RegExp(`@${this.username}\\b`, "i");
+      const mentions = [...this.posts.values()].filter((p) =>
+        p.username !== this.username && mention.test(p.text ?? "") && inTimeRange(p, params));
+      return this.page(mentions, params);
+    }
+    if (edge === "threads_publish" && method === "POST") return this.publish(params.creation_id);
+    if (edge === "threads_publishing_limit" && method === "GET") return this.publishingLimit();
+    if (edge === "threads_insights" && method === "GET") return this.userInsightsResponse(params);
+    throw invalidParam(`Unsupported ${method} request: ${this.userId}/${edge ?? ""}`);
+  }
+
+  private debugToken(token: string | undefined): unknown {
+    if (!token) throw invalidParam("Missing input_token");
+    const issuedAt = this.tokenIssuedAt.get(token);
+    const isValid = this.validTokens.has(token) && !this.expiredTokens.has(token);
+    return {
+      data: {
+        type: "USER",
+        application: "thrd fake app",
+        is_valid: isValid,
+        issued_at: issuedAt,
+        expires_at: issuedAt === undefined ? undefined : issuedAt + LONG_LIVED_EXPIRES_IN,
+        scopes: isValid ? this.grantedScopes : [],
+        user_id: this.userId,
+      },
+    };
+  }
+
+  private routeObject(method: string, id: string, params: Record<string, string>): unknown {
+    const container = this.containers.get(id);
+    if (container && method === "GET") {
+      const status = container.published_id
+        ? "PUBLISHED"
+        : container.statuses[Math.min(container.polls++, container.statuses.length - 1)];
+      return {
+        id,
+        status,
+        ...(status === "ERROR" ? { error_message: container.error_message ?? "FAILED_PROCESSING_MEDIA" } : {}),
+      };
+    }
+
+    const post = this.posts.get(id);
+    if (!post) throw notFound(id);
+    if (method === "GET") return this.serialize(post, params.fields);
+    if (method === "DELETE") {
+      for (const child of this.descendants(id)) this.posts.delete(child.id);
+      this.posts.delete(id);
+      return { success: true };
+    }
+    throw invalidParam(`Unsupported ${method} request: ${id}`);
+  }
+
+  private createContainer(params: Record<string, string>): { id: string } {
+    const mediaType = params.media_type as MediaType | undefined;
+    if (!mediaType || !["TEXT", "IMAGE", "VIDEO", "CAROUSEL"].includes(mediaType)) {
+      throw invalidParam("Param media_type must be one of TEXT, IMAGE, VIDEO, CAROUSEL");
+    }
+    if (mediaType === "TEXT" && !params.text) throw invalidParam("Param text is required for TEXT posts");
+    if (mediaType === "IMAGE" && !params.image_url) throw invalidParam("Param image_url is required for IMAGE posts");
+    if (mediaType === "VIDEO" && !params.video_url) throw invalidParam("Param video_url is required for VIDEO posts");
+    if (params.text && Array.from(params.text).length > 500) throw invalidParam("Param text must be at most 500 characters");
+    if (params.reply_to_id && !this.posts.has(params.reply_to_id)) throw notFound(params.reply_to_id);
+    if (params.quote_post_id && !this.posts.has(params.quote_post_id)) throw notFound(params.quote_post_id);
+
+    const children = params.children ? params.children.split(",") : undefined;
+    if (mediaType === "CAROUSEL") {
+      if (!children || children.length < 2 || children.length > 10) throw invalidParam("Carousel requires 2-10 children");
+      for (const child of children) {
+        if (!this.containers.get(child)?.is_carousel_item) throw invalidParam(`Invalid carousel item: ${child}`);
+      }
+    }
+
+    const id = this.generateId();
+    this.containers.set(id, {
+      id,
+      media_type: mediaType,
+      text: params.text,
+      image_url: params.image_url,
+      video_url: params.video_url,
+      reply_to_id: params.reply_to_id,
+      quote_post_id: params.quote_post_id,
+      is_carousel_item: params.is_carousel_item === "true",
+      children,
+      statuses: this.nextContainerStatuses.shift() ?? [...this.containerStatuses],
+      polls: 0,
+    });
+    return { id };
+  }
+
+  private publish(creationId: string | undefined): { id: string } {
+    if (!creationId) throw invalidParam("Param creation_id is required");
+    const container = this.containers.get(creationId);
+    if (!container) throw notFound(creationId);
+    if (container.published_id) throw invalidParam("Container has already been published");
+    if (container.is_carousel_item) throw invalidParam("Carousel items cannot be published on their own");
+
+    const status = container.statuses[Math.min(Math.max(container.polls - 1, 0), container.statuses.length - 1)];
+    if (status !== "FINISHED") {
+      throw invalidParam(`Media container is not ready to be published (status: ${status})`);
+    }
+
+    const post = this.addPost({
+      media_type: container.media_type,
+      text: container.text,
+      media_url: container.image_url ?? container.video_url,
+      reply_to_id: container.reply_to_id,
+      is_quote_post: Boolean(container.quote_post_id),
+      quoted_post: container.quote_post_id ? { id: container.quote_post_id } : undefined,
+    });
+    if (container.children) {
+      // Carousel items become media objects of their own, as in the real API
+      const items = container.children.map((id) => {
+        const item = this.containers.get(id)!;
+        return this.addPost({
+          media_type: item.media_type,
+          media_url: item.image_url ?? item.video_url,
+          timestamp: post.timestamp,
+          carousel_parent_id: post.id,
+        });
+      });
+      post.children = { data: items.map((item) => ({ id: item.id })) };
+    }
+    container.published_id = post.id;
+    return { id: post.id };
+  }
+
+  private publishingLimit(): { data: unknown[] } {
+    const since = Date.now() - QUOTA_DURATION * 1000;
+    const recent = [...this.posts.values()].filter((p) =>
+      p.username === this.username && Date.parse(p.timestamp ?? "") >= since);
+    return {
+      data: [{
+        quota_usage: recent.filter((p) => !p.reply_to_id && !p.carousel_parent_id).length,
+        config: { quota_total: POST_QUOTA, quota_duration: QUOTA_DURATION },
+        reply_quota_usage: recent.filter((p) => p.reply_to_id).length,
+        reply_config: { quota_total: REPLY_QUOTA, quota_duration: QUOTA_DURATION },
+      }],
+    };
+  }
+
+  private mediaInsights(id: string, metric: string | undefined, values: Record<string, number>): { data: unknown[] } {
+    if (!metric) throw invalidParam("Param metric is required");
+    return {
+      data: metric.split(",").map((name) => ({
+        name,
+        period: "lifetime",
+        values: [{ value: values[name] ?? 0 }],
+        title: name,
+        description: "",
+        id: `${id}/insights/${name}/lifetime`,
+      })),
+    };
+  }
+
+  private userInsightsResponse(params: Record<string, string>): { data: unknown[] } {
+    if (!params.metric) throw invalidParam("Param metric is required");
+    const until = params.until ? Number(params.until) * 1000 : Date.now();
+
+    return {
+      data: params.metric.split(",").map((name) => {
+        const base = { name, period: "day", title: name, description: "", id: `${this.userId}/insights/${name}/day` };
+        if (name === "follower_demographics") {
+          const breakdown = params.breakdown as DemographicBreakdown | undefined;
+          if (!breakdown) throw invalidParam("The follower_demographics metric requires the breakdown param");
+          const results = Object.entries(this.followerDemographics[breakdown] ?? {})
+            .map(([key, value]) => ({ dimension_values: [key], value }));
+          return { ...base, total_value: { breakdowns: [{ dimension_keys: [breakdown], results }] } };
+        }
+
+        const value = this.userInsights[name] ?? 0;
+        if (!Array.isArray(value)) return { ...base, total_value: { value } };
+        return {
+          ...base,
+          values: value.map((v, i) => ({
+            value: v,
+            end_time: new Date(until - (value.length - 1 - i) * QUOTA_DURATION * 1000).toISOString().replace(/\.\d{3}Z$/, "+0000"),
+          })),
+        };
+      }),
+    };
+  }
+
+  /** Requested fields of a post, including the reply relationship fields derived from `reply_to_id` */
+  private serialize(post: FakePost, fields: string | undefined): Record<string, unknown> {
+    let root = post;
+    while (root.reply_to_id && this.posts.has(root.reply_to_id)) root = this.posts.get(root.reply_to_id)!;
+    const hasReplies = [...this.posts.values()].some((p) => p.reply_to_id === post.id);
+    return pickFields({
+      ...post,
+      is_reply: Boolean(post.reply_to_id),
+      replied_to: post.reply_to_id ? { id: post.reply_to_id } : undefined,
+      root_post: { id: root.id },
+      has_replies: hasReplies,
+    }, fields);
+  }
+
+  private descendants(rootId: string): FakePost[] {
+    const result: FakePost[] = [];
+    const queue = [rootId];
+    while (queue.length) {
+      const parent = queue.shift()!;
+      for (const post of this.posts.values()) {
+        if (post.reply_to_id === parent) {
+          result.push(post);
+          queue.push(post.id);
+        }
+      }
+    }
+    return result;
+  }
+
+  /** `profile_lookup` result: a seeded profile, or a blank one for the account or any post author */
+  private lookupProfile(username: string | undefined): PublicProfile {
+    if (!username) throw invalidParam("Param username is required");
+    const stored = this.profiles.get(username);
+    if (stored) return { username, ...stored };
+    const known = username === this.username || [...this.posts.values()].some((p) => p.username === username);
+    if (!known) throw notFound(username);
+    return {
+      username,
+      name: username,
+      biography: "",
+      profile_picture_url: "",
+      is_verified: false,
+      follower_count: 0,
+      likes_count: 0,
+      quotes_count: 0,
+      replies_count: 0,
+      reposts_count: 0,
+      views_count: 0,
+    };
+  }
+
+  /** Case-insensitive substring search (`#query` with search_mode=TAG); results are newest first for both search types */
+  private keywordSearch(params: Record<string, string>): unknown {
+    if (!params.q) throw invalidParam("Param q is required");
+    if (params.search_type && !["TOP", "RECENT"].includes(params.search_type)) throw invalidParam("Param search_type must be TOP or RECENT");
+    const needle = (params.search_mode === "TAG" ? `#${params.q}` : params.q).toLowerCase();
+    const matches = [...this.posts.values()].filter((p) =>
+      (p.text ?? "").toLowerCase().includes(needle) &&
+      (!params.media_type || p.media_type === params.media_type) &&
+      inTimeRange(p, params));
+    return this.page(matches, params);
+  }
+
+  /** Newest-first page with Graph-style cursors */
+  private page(items: FakePost[], params: Record<string, string>): unknown {
+    const sorted = [...items].sort((a, b) => Date.parse(b.timestamp ?? "") - Date.parse(a.timestamp ?? ""));
+    const limit = params.limit ? Math.max(1, Number(params.limit)) : DEFAULT_PAGE_SIZE;
+
+    let start = 0;
+    let end = sorted.length;
+    if (params.after) {
+      start = sorted.findIndex((p) => p.id === decodeCursor(params.after)) + 1;
+      end = Math.min(sorted.length, start + limit);
+    } else if (params.before) {
+      end = Math.max(0, sorted.findIndex((p) => p.id === decodeCursor(params.before)));
+      start = Math.max(0, end - limit);
+    } else {
+      end = Math.min(sorted.length, limit);
+    }
+
+    const data = sorted.slice(start, end);
+    if (!data.length) return { data: [] };
+
+    const before = encodeCursor(data[0].id);
+    const after = encodeCursor(data[data.length - 1].id);
+    return {
+      data: data.map((p) => this.serialize(p, params.fields)),
+      paging: {
+        cursors: { before, after },
+        ...(end < sorted.length ? { next: `${this.url}/v1.0/?after=${after}` } : {}),
+        ...(start > 0 ? { previous: `${this.url}/v1.0/?before=${before}` } : {}),
+      },
+    };
+  }
+}
@@ -0,0 +1,288 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { spawn } from "child_process";
+import { appendFileSync, mkdirSync } from "fs";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { dirname, resolve } from "path";
+import { pathToFileURL } from "url";
+
+/** Largest webhook body accepted */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/** Run a shell command with the event JSON on stdin */
+export interface CommandWebhookHandler {
+  type: "command";
+  command: string;
+}
+
+/** Append each event as one JSON line to a file */
+export interface NdjsonWebhookHandler {
+  type: "ndjson";
+  path: string;
+}
+
+/** Call the default (or `handler`) export of a JS module */
+export interface ModuleWebhookHandler {
+  type: "module";
+  path: string;
+}
+
+export type WebhookHandlerConfig = (CommandWebhookHandler | NdjsonWebhookHandler | ModuleWebhookHandler) & {
+  /** Only dispatch these fields, e.g. ["replies"] (default: all) */
+  events?: string[];
+};
+
+/** `webhooks` section of config.json */
+export interface WebhooksConfig {
+  /** Token entered as "Verify token" in the Meta app dashboard */
+  verify_token?: string;
+  port?: number;
+  host?: string;
+  /** Callback path (default: /webhooks) */
+  path?: string;
+  handlers?: WebhookHandlerConfig[];
+}
+
+/** Media object delivered with `replies` and `mentions` events */
+export interface WebhookMediaValue {
+  id: string;
+  username?: string;
+  text?: string;
+  media_type?: string;
+  permalink?: string;
+  shortcode?: string;
+  timestamp?: string;
+  replied_to?: { id: string };
+  root_post?: { id: string; owner_id?: string; username?: string };
+  [key: string]: unknown;
+}
+
+export interface ThreadsWebhookEvent {
+  /** Subscribed field, e.g. `replies`, `mentions`, `publish`, `delete` */
+  field: string;
+  app_id?: string;
+  /** ID of the subscribed user */
+  target_id?: string;
+  /** Unix seconds */
+  time?: number;
+  value: WebhookMediaValue;
+}
+
+export type WebhookHandler = (event: ThreadsWebhookEvent) => void | Promise<void>;
+
+/** True if `signature` (`sha256=<hex>`) is the HMAC-SHA256 of the raw body under the app secret */
+export function verifySignature(body: Buffer, signature: string | undefined, appSecret: string): boolean {
+  if (!signature?.startsWith("sha256=")) return false;
+  const expected = createHmac("sha256", appSecret).update(body).digest();
+  const given = Buffer.from(signature.slice("sha256=".length), "hex");
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Parse a Threads webhook body into events. Accepts the Threads shape
+ * (`{ values: { field, value } }`, singly or batched) and the generic Graph
+ * shape (`{ entry: [{ changes: [{ field, value }] }] }`).
+ */
+export function parseWebhookPayload(payload: unknown): ThreadsWebhookEvent[] {
+  const items = Array.isArray(payload) ? payload : [payload];
+  const events: ThreadsWebhookEvent[] = [];
+  for (const item of items as Array<Record<string, unknown>>) {
+    if (!item || typeof item !== "object") continue;
+    const meta = {
+      app_id: item.app_id !== undefined ? String(item.app_id) : undefined,
+      target_id: item.target_id !== undefined ? String(item.target_id) : undefined,
+      time: typeof item.time === "number" ? item.time : undefined,
+    };
+
+    const values = item.values as { field?: string; value?: WebhookMediaValue } | undefined;
+    if (values?.field && values.value) events.push({ ...meta, field: values.field, value: values.value });
+
+    for (const entry of (item.entry as Array<Record<string, unknown>> | undefined) ?? []) {
+      const changes = (entry.changes as Array<{ field?: string; value?: WebhookMediaValue }> | undefined) ?? [];
+      for (const change of changes) {
+        if (!change.field || !change.value) continue;
+        events.push({
+          ...meta,
+          target_id: entry.id !== undefined ? String(entry.id) : meta.target_id,
+          time: typeof entry.time === "number" ? entry.time : meta.time,
+          field: change.field,
+          value: change.value,
+        });
+      }
+    }
+  }
+  return events;
+}
+
+function runCommandHandler(command: string, event: ThreadsWebhookEvent): Promise<void> {
+  return new Promise((resolvePromise, reject) => {
+    const child = spawn(command, { shell: true, stdio: ["pipe", "inherit", "inherit"] });
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code === 0) resolvePromise();
+      else reject(new Error(`Handler command exited with code ${code}: ${command}`));
+    });
+    child.stdin.on("error", () => { /* command did not read stdin */ });
+    child.stdin.end(JSON.stringify(event) + "\n");
+  });
+}
+
+async function loadModuleHandler(path: string): Promise<WebhookHandler> {
+  const mod = await import(pathToFileURL(resolve(path)).href) as { default?: unknown; handler?: unknown };
+  const handler = typeof mod.default === "function" ? mod.default : mod.handler;
+  if (typeof handler !== "function") throw new Error(`${path} must export a handler function (default or named 'handler').`);
+  return handler as WebhookHandler;
+}
+
+/** Create a handler from a `webhooks.handlers` entry (modules are imported once) */
+export async function createWebhookHandler(config: WebhookHandlerConfig): Promise<WebhookHandler> {
+  let handler: WebhookHandler;
+  switch (config.type) {
+    case "command":
+      handler = (event) => runCommandHandler(config.command, event);
+      break;
+    case "ndjson": {
+      const path = resolve(config.path);
+      handler = (event) => {
+        mkdirSync(dirname(path), { recursive: true });
+        appendFileSync(path, JSON.stringify(event) + "\n", { mode: 0o600 });
+      };
+      break;
+    }
+    case "module":
+      handler = await loadModuleHandler(config.path);
+      break;
+    default:
+      throw new Error(`Unknown webhook handler type '${(config as { type?: string }).type}'. Use command, ndjson, or module.`);
+  }
+  const fields = config.events;
+  return fields?.length ? (event) => (fields.includes(event.field) ? handler(event) : undefined) : handler;
+}
+
+export interface WebhookServerOptions {
+  appSecret: string;
+  verifyToken: string;
+  handlers: WebhookHandler[];
+  port?: number;
+  host?: string;
+  path?: string;
+  /** Called for each parsed event before it is dispatched */
+  onEvent?: (event: ThreadsWebhookEvent) => void;
+  /** Called when a request is rejected (bad signature, bad verify token, malformed body) */
+  onReject?: (reason: string, req: IncomingMessage) => void;
+  /** Called when `onEvent` or a handler fails */
+  onError?: (err: Error, event: ThreadsWebhookEvent) => void;
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolvePromise, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolvePromise(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Start an HTTP server for Threads webhooks. GET answers Meta's subscription
+ * check (`hub.challenge`) when `hub.verify_token` matches; POST requires a valid
+ * `X-Hub-Signature-256`, is acknowledged with 200 right away, and its events are
+ * then passed to every handler in order.
+ */
+export function serveWebhooks(options: WebhookServerOptions): Promise<{ server: Server; url: string }> {
+  const callbackPath = options.path ?? "/webhooks";
+
+  const reject = (req: IncomingMessage, res: ServerResponse, status: number, reason: string) => {
+    options.onReject?.(reason, req);
+    res.writeHead(status, { "Content-Type": "text/plain" });
+    res.end(reason);
+  };
+
+  const dispatch = async (events: ThreadsWebhookEvent[]) => {
+    for (const event of events) {
+      // Runs after the response was sent, so nothing may escape as an unhandled rejection
+      try {
+        options.onEvent?.(event);
+      } catch (err) {
+        options.onError?.(err as Error, event);
+      }
+      for (const handler of options.handlers) {
+        try {
+          await handler(event);
+        } catch (err) {
+          options.onError?.(err as Error, event);
+        }
+      }
+    }
+  };
+
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== callbackPath) {
+      res.writeHead(404);
+      res.end("Not found");
+      return;
+    }
+
+    if (req.method === "GET") {
+      const mode = url.searchParams.get("hub.mode");
+      const token = url.searchParams.get("hub.verify_token");
+      const challenge = url.searchParams.get("hub.challenge");
+      if (mode !== "subscribe" || !challenge || token !== options.verifyToken) {
+        reject(req, res, 403, "Verification failed");
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "text/plain" });
+      res.end(challenge);
+      return;
+    }
+
+    if (req.method !== "POST") {
+      res.writeHead(405, { Allow: "GET, POST" });
+      res.end("Method not allowed");
+      return;
+    }
+
+    let body: Buffer;
+    try {
+      body = await readBody(req);
+    } catch (err) {
+      reject(req, res, 413, (err as Error).message);
+      return;
+    }
+    if (!verifySignature(body, req.headers["x-hub-signature-256"] as string | undefined, options.appSecret)) {
+      reject(req, res, 401, "Invalid signature");
+      return;
+    }
+
+    let events: ThreadsWebhookEvent[];
+    try {
+      events = parseWebhookPayload(JSON.parse(body.toString("utf-8")));
+    } catch (err) {
+      reject(req, res, 400, `Malformed payload: ${(err as Error).message}`);
+      return;
+    }
+
+    res.writeHead(200, { "Content-Type": "text/plain" });
+    res.end("OK");
+    await dispatch(events);
+  });
+
+  return new Promise((resolvePromise, rejectPromise) => {
+    server.once("error", rejectPromise);
+    server.listen(options.port ?? 8080, options.host ?? "127.0.0.1", () => {
+      const { address, port } = server.address() as AddressInfo;
+      const host = address.includes(":") ? `[${address}]` : address;
+      resolvePromise({ server, url: `http://${host}:${port}${callbackPath}` });
+    });
+  });
+}
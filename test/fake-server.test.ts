@@ -0,0 +1,77 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ThreadsClient, ThreadsApiError } from "../src/client/index.js";
+import { createPost, getThread, getUserThreads } from "../src/client/posts.js";
+import { collectPages } from "../src/client/pagination.js";
+import { FakeThreadsServer } from "../src/testing.js";
+
+describe("FakeThreadsServer", () => {
+  let server: FakeThreadsServer;
+  let client: ThreadsClient;
+
+  before(async () => {
+    server = await FakeThreadsServer.start();
+    client = new ThreadsClient(server.config(), { baseUrl: server.url, maxRetries: 2 });
+  });
+
+  after(() => server.stop());
+
+  beforeEach(() => server.reset());
+
+  it("creates, polls and publishes a text post", async () => {
+    server.queueContainerStatuses("IN_PROGRESS", "FINISHED");
+    const post = await createPost(client, "Hello from the fake server");
+
+    assert.equal(server.posts.get(post.id)?.text, "Hello from the fake server");
+    const [container] = [...server.containers.values()];
+    assert.equal(container.published_id, post.id);
+    assert.equal(container.polls, 2);
+
+    const fetched = await getThread(client, post.id);
+    assert.equal(fetched.text, "Hello from the fake server");
+  });
+
+  it("pages through posts newest first", async () => {
+    for (let i = 0; i < 5; i++) {
+      server.addPost({ text: `post ${i}`, timestamp: new Date(Date.UTC(2026, 0, i + 1)).toISOString() });
+    }
+
+    const first = await collectPages(client, (c, p) => getUserThreads(c, p), { pageSize: 2, max: 3 });
+    assert.deepEqual(first.data.map((p) => p.text), ["post 4", "post 3", "post 2"]);
+    assert.ok(first.next_cursor);
+
+    const rest = await collectPages(client, (c, p) => getUserThreads(c, p), { pageSize: 2, after: first.next_cursor });
+    assert.deepEqual(rest.data.map((p) => p.text), ["post 1", "post 0"]);
+    assert.equal(rest.next_cursor, undefined);
+  });
+
+  it("retries a rate-limited publish", async () => {
+    server.injectFault({ status: 429, method: "POST", path: `${server.userId}/threads` });
+    const post = await createPost(client, "after a 429");
+
+    assert.equal(server.posts.get(post.id)?.text, "after a 429");
+    const creates = server.requests.filter((r) => r.method === "POST" && r.path === `${server.userId}/threads`);
+    assert.equal(creates.length, 2);
+  });
+
+  it("retries transient 5xx errors on GET only", async () => {
+    const { id } = server.addPost({ text: "flaky" });
+    server.injectFault({ status: 503, method: "GET", path: id, times: 2 });
+    assert.equal((await getThread(client, id)).text, "flaky");
+
+    server.injectFault({ status: 500, method: "POST", path: `${server.userId}/threads` });
+    await assert.rejects(createPost(client, "not retried"), (err: unknown) => {
+      assert.ok(err instanceof ThreadsApiError);
+      assert.equal(err.status, 500);
+      return true;
+    });
+    assert.equal(server.containers.size, 0);
+  });
+
+  it("gives up after maxRetries", async () => {
+    const { id } = server.addPost({ text: "down" });
+    server.injectFault({ status: 500, method: "GET", path: id, times: 3 });
+    await assert.rejects(getThread(client, id), ThreadsApiError);
+    assert.equal(server.requests.filter((r) => r.path === id).length, 3);
+  });
+});
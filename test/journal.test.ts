@@ -0,0 +1,76 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ThreadsClient } from "../src/client/index.js";
+import { createPost } from "../src/client/posts.js";
+import { FakeThreadsServer } from "../src/testing.js";
+
+// State files live under $HOME/.config/thrd-cli, resolved when config.ts is first imported
+const home = mkdtempSync(join(tmpdir(), "thrd-journal-"));
+process.env.HOME = home;
+const { listContainers, publishJournaled } = await import("../src/journal.js");
+
+describe("publishJournaled", () => {
+  let server: FakeThreadsServer;
+  let client: ThreadsClient;
+
+  before(async () => {
+    server = await FakeThreadsServer.start();
+    client = new ThreadsClient(server.config(), { baseUrl: server.url });
+  });
+
+  after(async () => {
+    await server.stop();
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  const publish = (text: string, idempotencyKey?: string) =>
+    publishJournaled(client, { profile: "default", payload: { text }, idempotencyKey }, (hooks) => createPost(client, text, hooks));
+
+  it("records each container as published", async () => {
+    const post = await publish("journaled");
+    const record = listContainers("default", { all: true }).find((r) => r.published_id === post.id);
+    assert.equal(record?.state, "published");
+  });
+
+  it("returns the earlier post for a repeated idempotency key", async () => {
+    const first = await publish("once", "key-1");
+    const second = await publish("once", "key-1");
+
+    assert.equal(first.idempotent, undefined);
+    assert.deepEqual(second, { id: first.id, idempotent: "published" });
+    assert.equal([...server.posts.values()].filter((p) => p.text === "once").length, 1);
+  });
+
+  it("lets only one of two concurrent runs with the same key publish", async () => {
+    server.queueContainerStatuses("IN_PROGRESS", "FINISHED");
+    const results = await Promise.allSettled([publish("concurrent", "key-4"), publish("concurrent", "key-4")]);
+
+    const fulfilled = results.filter((r) => r.status === "fulfilled");
+    const rejected = results.filter((r): r is PromiseRejectedResult => r.status === "rejected");
+    assert.equal(fulfilled.length, 1);
+    assert.match(rejected[0].reason.message, /is being published by another run/);
+    assert.equal([...server.containers.values()].filter((c) => c.text === "concurrent").length, 1);
+
+    const retry = await publish("concurrent", "key-4");
+    assert.equal(retry.idempotent, "published");
+  });
+
+  it("rejects a reused key with a different payload", async () => {
+    await publish("original", "key-2");
+    await assert.rejects(publish("changed", "key-2"), /already used with a different payload/);
+  });
+
+  it("publishes the container a failed attempt left behind", async () => {
+    server.injectFault({ status: 500, method: "POST", path: `${server.userId}/threads_publish` });
+    await assert.rejects(publish("resume me", "key-3"));
+    assert.ok(![...server.posts.values()].some((p) => p.text === "resume me"));
+
+    const retry = await publish("resume me", "key-3");
+    assert.equal(retry.idempotent, "resumed");
+    assert.equal(server.posts.get(retry.id)?.text, "resume me");
+    assert.equal([...server.containers.values()].filter((c) => c.text === "resume me").length, 1);
+  });
+});